@@ -0,0 +1,39 @@
+const http = require("node:http")
+
+// Starts an HTTP server on a free local port for a test to point the app at. `handler` gets the request and
+// its parsed JSON body (or the raw text) and returns { status, headers, body }; every request is recorded.
+async function startLocalServer(handler) {
+  const requests = []
+  const server = http.createServer((request, response) => {
+    const chunks = []
+    request.on("data", (chunk) => chunks.push(chunk))
+    request.on("end", async () => {
+      const raw = Buffer.concat(chunks).toString("utf8")
+      let body = raw
+      try {
+        body = raw ? JSON.parse(raw) : undefined
+      } catch {}
+      const url = new URL(request.url, "http://localhost")
+      const recorded = { method: request.method, url, headers: request.headers, body, raw }
+      requests.push(recorded)
+
+      const reply = (await handler(recorded)) ?? { status: 404, body: { message: "Not Found" } }
+      const headers = { "Content-Type": "application/json", ...reply.headers }
+      response.writeHead(reply.status ?? 200, headers)
+      response.end(typeof reply.body === "string" ? reply.body : JSON.stringify(reply.body ?? null))
+    })
+  })
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address()
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => {
+      server.closeAllConnections() // fetch keeps connections alive, which would hold close() open
+      return new Promise((resolve) => server.close(resolve))
+    },
+  }
+}
+
+module.exports = { startLocalServer }
@@ -0,0 +1,25 @@
+// Lets plain node tests require the app's TypeScript modules: .ts files are transpiled on the fly with the
+// project's own typescript package, and the "@/" path alias resolves to the repository root
+const fs = require("node:fs")
+const Module = require("node:module")
+const path = require("node:path")
+const ts = require("typescript")
+
+const root = path.join(__dirname, "..", "..")
+
+const resolveFilename = Module._resolveFilename
+Module._resolveFilename = function (request, ...rest) {
+  return resolveFilename.call(this, request.startsWith("@/") ? path.join(root, request.slice(2)) : request, ...rest)
+}
+
+require.extensions[".ts"] = (module, filename) => {
+  const { outputText } = ts.transpileModule(fs.readFileSync(filename, "utf8"), {
+    fileName: filename,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      esModuleInterop: true,
+    },
+  })
+  module._compile(outputText, filename)
+}
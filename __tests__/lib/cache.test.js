@@ -0,0 +1,119 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const fs = require("node:fs")
+const os = require("node:os")
+const path = require("node:path")
+const { after, describe, test } = require("node:test")
+
+const { cached } = require("@/lib/cache")
+const { FileCacheBackend } = require("@/lib/cache/file")
+const { MemoryCacheBackend } = require("@/lib/cache/memory")
+const { SqliteCacheBackend } = require("@/lib/cache/sqlite")
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "cache-test-"))
+after(() => fs.rmSync(directory, { recursive: true, force: true }))
+
+// node:sqlite loads without flags from Node.js 22.13
+const [major, minor] = process.versions.node.split(".").map(Number)
+const hasSqlite = major > 22 || (major === 22 && minor >= 13)
+
+const backends = {
+  memory: async () => new MemoryCacheBackend(),
+  file: async () => new FileCacheBackend(path.join(directory, "files")),
+  ...(hasSqlite ? { sqlite: () => SqliteCacheBackend.open(path.join(directory, "cache.sqlite")) } : {}),
+}
+
+for (const [name, open] of Object.entries(backends)) {
+  describe(`${name} backend`, () => {
+    test("returns what was stored until it is deleted", async () => {
+      const backend = await open()
+      await backend.set("github.com:user:alice", { login: "alice" }, 60)
+
+      assert.deepEqual(await backend.get("github.com:user:alice"), { login: "alice" })
+      await backend.delete("github.com:user:alice")
+      assert.equal(await backend.get("github.com:user:alice"), undefined)
+    })
+
+    test("treats expired entries as missing", async () => {
+      const backend = await open()
+      await backend.set("github.com:user:bob", { login: "bob" }, 0)
+
+      assert.equal(await backend.get("github.com:user:bob"), undefined)
+    })
+  })
+}
+
+describe("memory backend bound", () => {
+  test("evicts the oldest write once it holds more than maxEntries", async () => {
+    const backend = new MemoryCacheBackend(2)
+    await backend.set("alice", 1, 60)
+    await backend.set("bob", 2, 60)
+    await backend.set("alice", 3, 60) // Rewriting alice makes bob the oldest
+    await backend.set("carol", 4, 60)
+
+    assert.equal(await backend.get("bob"), undefined)
+    assert.equal(await backend.get("alice"), 3)
+    assert.equal(await backend.get("carol"), 4)
+  })
+})
+
+describe("file backend sweep", () => {
+  test("deletes expired files of keys that are never read again", async () => {
+    const filesDirectory = path.join(directory, "sweep")
+    await new FileCacheBackend(filesDirectory).set("github.com:user:bob", { login: "bob" }, 0)
+    await new FileCacheBackend(filesDirectory).set("github.com:user:alice", { login: "alice" }, 60)
+
+    assert.equal(fs.readdirSync(filesDirectory).length, 1)
+  })
+
+  test("waits sweepIntervalMs between sweeps", async () => {
+    const filesDirectory = path.join(directory, "sweep-interval")
+    const backend = new FileCacheBackend(filesDirectory, 60_000)
+    await backend.set("github.com:user:bob", { login: "bob" }, 0)
+    await backend.set("github.com:user:alice", { login: "alice" }, 60)
+
+    assert.equal(fs.readdirSync(filesDirectory).length, 2)
+  })
+})
+
+describe("sqlite backend availability", () => {
+  test("opens on Node.js 22.13+ and fails with a clear message before", { skip: hasSqlite }, async () => {
+    await assert.rejects(SqliteCacheBackend.open(path.join(directory, "old.sqlite")), /Node\.js 22\.13/)
+  })
+})
+
+describe("cached", () => {
+  const requestCache = (forceRefresh = false) => ({
+    backend: new MemoryCacheBackend(),
+    metrics: { hits: 0, misses: 0, writes: 0 },
+    forceRefresh,
+  })
+
+  test("loads once, then serves hits from the backend", async () => {
+    const cache = requestCache()
+    let loads = 0
+    const load = async () => ({ login: "alice", load: ++loads })
+
+    assert.deepEqual(await cached(cache, "key", 60, load), { login: "alice", load: 1 })
+    assert.deepEqual(await cached(cache, "key", 60, load), { login: "alice", load: 1 })
+    assert.deepEqual(cache.metrics, { hits: 1, misses: 1, writes: 1 })
+  })
+
+  test("never caches errors", async () => {
+    const cache = requestCache()
+    await cached(cache, "key", 60, async () => ({ error: "Not Found" }))
+
+    assert.equal(await cache.backend.get("key"), undefined)
+    assert.equal(cache.metrics.writes, 0)
+  })
+
+  test("skips reads but still writes when forcing a refresh", async () => {
+    const cache = requestCache(true)
+    await cache.backend.set("key", { login: "stale" }, 60)
+
+    assert.deepEqual(await cached(cache, "key", 60, async () => ({ login: "fresh" })), { login: "fresh" })
+    assert.deepEqual(await cache.backend.get("key"), { login: "fresh" })
+    assert.equal(cache.metrics.hits, 0)
+  })
+})
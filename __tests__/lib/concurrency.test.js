@@ -0,0 +1,57 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const { describe, test } = require("node:test")
+
+const { mapWithConcurrency } = require("@/lib/concurrency")
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+describe("mapWithConcurrency", () => {
+  test("keeps results in input order, however the calls finish", async () => {
+    const delays = [30, 0, 20, 10, 0]
+    const { results, skipped } = await mapWithConcurrency(
+      delays,
+      async (delay, index) => {
+        await sleep(delay)
+        return `item ${index}`
+      },
+      { concurrency: 3 },
+    )
+
+    assert.deepEqual(results, ["item 0", "item 1", "item 2", "item 3", "item 4"])
+    assert.deepEqual(skipped, [])
+  })
+
+  test("never has more than `concurrency` calls in flight", async () => {
+    let inFlight = 0
+    let mostInFlight = 0
+    await mapWithConcurrency(
+      Array.from({ length: 10 }, (_, index) => index),
+      async () => {
+        mostInFlight = Math.max(mostInFlight, ++inFlight)
+        await sleep(5)
+        inFlight--
+      },
+      { concurrency: 4 },
+    )
+
+    assert.equal(mostInFlight, 4)
+  })
+
+  test("skips the remaining items once shouldStop flips", async () => {
+    const mapped = []
+    const { results, skipped } = await mapWithConcurrency(
+      ["a", "b", "c", "d", "e"],
+      async (item) => {
+        mapped.push(item)
+        return item.toUpperCase()
+      },
+      { concurrency: 1, shouldStop: () => mapped.length >= 2 },
+    )
+
+    assert.deepEqual(mapped, ["a", "b"])
+    assert.deepEqual(results, ["A", "B", undefined, undefined, undefined])
+    assert.deepEqual(skipped, ["c", "d", "e"])
+  })
+})
@@ -0,0 +1,274 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const fs = require("node:fs")
+const os = require("node:os")
+const path = require("node:path")
+const { after, before, beforeEach, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "follow-actions-test-"))
+after(() => fs.rmSync(directory, { recursive: true, force: true }))
+
+const { bulkUnfollow, followBack, loadJournal, undoFollowBatch } = require("@/lib/follow-actions")
+const { DAILY_FOLLOW_CAP, FOLLOW_INTERVAL_MS } = require("@/lib/follow-limits")
+const { readJournal } = require("@/lib/journal")
+
+let github
+const revoked = new Set() // Tokens GitHub answers 401 for
+
+// "token" belongs to alice and "mallory-token" to mallory; both may follow, and every follow and unfollow succeeds
+// except unfollowing "forbidden"
+before(async () => {
+  github = await startLocalServer(({ method, url, headers }) => {
+    if (revoked.has(headers.authorization)) {
+      return { status: 401, body: { message: "Bad credentials" } }
+    }
+    if (url.pathname === "/api/v3/user") {
+      const login = headers.authorization === "Bearer mallory-token" ? "mallory" : "alice"
+      const body = { login, avatar_url: "", html_url: "", followers: 0, following: 0, public_repos: 0 }
+      return { headers: { "X-OAuth-Scopes": "user:follow" }, body }
+    }
+    if (method === "DELETE" && url.pathname === "/api/v3/user/following/forbidden") {
+      return { status: 403, body: { message: "Forbidden" } }
+    }
+    if ((method === "PUT" || method === "DELETE") && url.pathname.startsWith("/api/v3/user/following/")) {
+      return { status: 204, body: "" }
+    }
+  })
+  process.env.GITHUB_HOST = github.url
+})
+
+after(() => github.close())
+
+let journalCount = 0
+beforeEach(() => {
+  process.env.JOURNAL_PATH = path.join(directory, `journal-${++journalCount}.jsonl`)
+  github.requests.length = 0
+})
+
+const follows = () =>
+  github.requests.filter((request) => request.method === "PUT").map((request) => request.url.pathname)
+const writes = () => github.requests.filter((request) => request.method === "PUT" || request.method === "DELETE")
+
+const journalEntry = (fields) => ({
+  id: `seed-${fields.target}`,
+  batchId: "earlier",
+  action: "follow",
+  actor: "alice",
+  tokenFingerprint: "seed",
+  host: new URL(github.url).host,
+  status: "succeeded",
+  at: Date.now() - 60_000,
+  ...fields,
+})
+
+function writeJournal(entries) {
+  fs.writeFileSync(process.env.JOURNAL_PATH, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(""))
+}
+
+// Earlier follows by alice
+function seedJournal(count, at) {
+  writeJournal(Array.from({ length: count }, (_, index) => journalEntry({ target: `seed-${index}`, at })))
+}
+
+describe("followBack", () => {
+  test("refuses to follow past the daily cap, whatever the client counted", async () => {
+    seedJournal(DAILY_FOLLOW_CAP, Math.max(new Date().setUTCHours(0, 0, 0, 0), Date.now() - 60_000))
+    const result = await followBack("bob", "token", { batchId: "queue" })
+
+    assert.equal(result.status, "failed")
+    assert.equal(result.stopsBatch, true)
+    assert.equal(result.followedToday, DAILY_FOLLOW_CAP)
+    assert.match(result.error, /cap of 100 follows/)
+    assert.deepEqual(follows(), [])
+  })
+
+  test("doesn't count follows from before today (UTC)", async () => {
+    seedJournal(DAILY_FOLLOW_CAP, new Date().setUTCHours(0, 0, 0, 0) - 1)
+    const result = await followBack("bob", "token", { batchId: "queue" })
+
+    assert.equal(result.status, "followed")
+    assert.equal(result.followedToday, 1)
+  })
+
+  test("follows an account only once when two tabs send it for the same batch", async () => {
+    const results = await Promise.all([
+      followBack("carol", "token", { batchId: "queue" }),
+      followBack("carol", "token", { batchId: "queue" }),
+    ])
+
+    assert.deepEqual(
+      results.map((result) => result.status),
+      ["followed", "followed"],
+    )
+    assert.deepEqual(follows(), ["/api/v3/user/following/carol"])
+    assert.equal((await readJournal()).length, 1)
+  })
+
+  test("spaces follows from concurrent requests at least FOLLOW_INTERVAL_MS apart", async () => {
+    await Promise.all([followBack("dave", "token"), followBack("erin", "token")])
+
+    const [first, second] = await readJournal()
+    assert.ok(second.at - first.at >= FOLLOW_INTERVAL_MS, `${second.at - first.at}ms apart`)
+  })
+})
+
+describe("bulkUnfollow", () => {
+  const options = { intervalMs: 0 }
+
+  test("sends nothing on a dry run", async () => {
+    const result = await bulkUnfollow(["bob", "carol"], "token", { ...options, dryRun: true })
+
+    assert.equal(result.dryRun, true)
+    assert.deepEqual(
+      result.results.map((entry) => entry.status),
+      ["would-unfollow", "would-unfollow"],
+    )
+    assert.deepEqual(writes(), [])
+    assert.deepEqual(await readJournal(), [])
+  })
+
+  test("unfollows each account once, however it was spelled", async () => {
+    const result = await bulkUnfollow(["bob", "Bob", "carol", "BOB"], "token", options)
+
+    assert.deepEqual(
+      result.results.map((entry) => entry.login),
+      ["bob", "carol"],
+    )
+    assert.deepEqual(
+      writes().map((request) => request.url.pathname),
+      ["/api/v3/user/following/bob", "/api/v3/user/following/carol"],
+    )
+  })
+
+  test("skips the remaining accounts once GitHub refuses the token", async () => {
+    const result = await bulkUnfollow(["bob", "forbidden", "carol", "dave"], "token", options)
+
+    assert.deepEqual(
+      result.results.map((entry) => entry.status),
+      ["unfollowed", "failed", "skipped", "skipped"],
+    )
+    assert.equal(writes().length, 2)
+  })
+})
+
+describe("undoFollowBatch", () => {
+  const options = { intervalMs: 0 }
+
+  test("only replays the token owner's requests, even when someone else reused the batch id", async () => {
+    writeJournal([
+      journalEntry({ batchId: "shared", action: "unfollow", target: "bob" }),
+      journalEntry({ batchId: "shared", action: "unfollow", target: "carol", actor: "mallory" }),
+    ])
+    const result = await undoFollowBatch("shared", "token", options)
+
+    assert.equal(result.error, undefined)
+    assert.deepEqual(follows(), ["/api/v3/user/following/bob"])
+  })
+
+  test("refuses tokens of anyone but the batch's actor", async () => {
+    writeJournal([journalEntry({ batchId: "alices", action: "unfollow", target: "bob" })])
+    const result = await undoFollowBatch("alices", "mallory-token", options)
+
+    assert.match(result.error, /run by alice/)
+    assert.deepEqual(follows(), [])
+  })
+
+  test("undoes a batch once when asked twice at the same time", async () => {
+    writeJournal([journalEntry({ batchId: "twice", action: "unfollow", target: "bob" })])
+    const results = await Promise.all([
+      undoFollowBatch("twice", "token", options),
+      undoFollowBatch("twice", "token", options),
+    ])
+
+    assert.deepEqual(
+      results.map((result) => result.error),
+      [undefined, "That batch has already been undone."],
+    )
+    assert.deepEqual(follows(), ["/api/v3/user/following/bob"])
+  })
+
+  test("counts re-follows against the daily cap", async () => {
+    const today = Math.max(new Date().setUTCHours(0, 0, 0, 0), Date.now() - 60_000)
+    const earlier = Array.from({ length: DAILY_FOLLOW_CAP - 1 }, (_, index) =>
+      journalEntry({ target: `seed-${index}`, at: today }),
+    )
+    writeJournal([
+      ...earlier,
+      journalEntry({ batchId: "big", action: "unfollow", target: "bob" }),
+      journalEntry({ batchId: "big", action: "unfollow", target: "carol" }),
+    ])
+    const result = await undoFollowBatch("big", "token", options)
+
+    assert.match(result.error, /only 1 of today's 100 follows are left/)
+    assert.deepEqual(follows(), [])
+  })
+
+  test("spaces re-follows like follow-backs, whatever interval was asked for", async () => {
+    writeJournal([
+      journalEntry({ batchId: "pair", action: "unfollow", target: "bob" }),
+      journalEntry({ batchId: "pair", action: "unfollow", target: "carol" }),
+    ])
+    const result = await undoFollowBatch("pair", "token", options)
+
+    assert.equal(result.error, undefined)
+    const [first, second] = (await readJournal()).filter((entry) => entry.undoOf === "pair")
+    assert.ok(second.at - first.at >= FOLLOW_INTERVAL_MS, `${second.at - first.at}ms apart`)
+  })
+})
+
+describe("revoked tokens", () => {
+  const userLookups = () => github.requests.filter((request) => request.url.pathname === "/api/v3/user").length
+
+  test("stop following once GitHub rejects them, instead of passing on a cached inspection", async () => {
+    assert.equal((await followBack("bob", "revoked-1")).status, "followed")
+    revoked.add("Bearer revoked-1")
+
+    const rejected = await followBack("carol", "revoked-1")
+    assert.equal(rejected.status, "failed")
+    assert.equal(rejected.stopsBatch, true)
+
+    const lookupsBefore = userLookups()
+    const retried = await followBack("dave", "revoked-1")
+    assert.equal(retried.status, "failed")
+    assert.equal(userLookups(), lookupsBefore + 1) // Looked up again, not served from the cache
+    assert.deepEqual(follows(), ["/api/v3/user/following/bob", "/api/v3/user/following/carol"])
+  })
+
+  test("can't open the journal", async () => {
+    assert.equal((await followBack("bob", "revoked-2")).status, "followed")
+    assert.equal((await loadJournal("revoked-2")).actor, "alice")
+    revoked.add("Bearer revoked-2")
+
+    const result = await loadJournal("revoked-2")
+    assert.equal(result.actor, undefined)
+    assert.ok(result.error)
+  })
+})
+
+describe("tokens of someone other than the scanned account", () => {
+  test("can't follow back for it", async () => {
+    const result = await followBack("bob", "mallory-token", { expectedActor: "Alice" })
+
+    assert.equal(result.status, "failed")
+    assert.equal(result.stopsBatch, true)
+    assert.match(result.error, /belongs to mallory, not Alice/)
+    assert.deepEqual(writes(), [])
+  })
+
+  test("can't unfollow for it", async () => {
+    const result = await bulkUnfollow(["bob", "carol"], "mallory-token", { expectedActor: "alice", intervalMs: 0 })
+
+    assert.match(result.error, /belongs to mallory, not alice/)
+    assert.equal(result.results, undefined)
+    assert.deepEqual(writes(), [])
+  })
+
+  test("are accepted when the login only differs in case", async () => {
+    const result = await bulkUnfollow(["bob"], "token", { expectedActor: "ALICE", intervalMs: 0 })
+    assert.equal(result.error, undefined)
+    assert.equal(writes().length, 1)
+  })
+})
@@ -0,0 +1,222 @@
+// Profile enrichment against a local stand-in for GitHub's REST and GraphQL APIs
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const fs = require("node:fs")
+const os = require("node:os")
+const path = require("node:path")
+const { after, before, beforeEach, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+
+process.env.SNAPSHOT_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "graphql-test-"))
+
+const { fetchUserProfilesGraphQL, GRAPHQL_BATCH_SIZE } = require("@/lib/github-graphql")
+const { scanRelationships } = require("@/lib/scan")
+
+const ORGANIZATION = "acme"
+const FOLLOWED = [...Array.from({ length: 149 }, (_, index) => `user${index}`), ORGANIZATION]
+const UNKNOWN = "ghost-account"
+
+function simpleUser(login) {
+  return { login, avatar_url: `https://avatars.example/${login}`, html_url: `https://github.example/${login}` }
+}
+
+function restUser(login) {
+  return {
+    login,
+    avatar_url: `https://avatars.example/${login}`,
+    html_url: `https://github.example/${login}`,
+    type: "User",
+    followers: 1,
+    following: 2,
+    public_repos: 3,
+  }
+}
+
+function graphQLUser(login) {
+  return {
+    __typename: "User",
+    login,
+    avatarUrl: `https://avatars.example/${login}`,
+    url: `https://github.example/${login}`,
+    followers: { totalCount: 1 },
+    following: { totalCount: 2 },
+    repositories: { totalCount: 3 },
+  }
+}
+
+function graphQLOrganization(login) {
+  return {
+    __typename: "Organization",
+    login,
+    avatarUrl: `https://avatars.example/${login}`,
+    url: `https://github.example/${login}`,
+    repositories: { totalCount: 3 },
+  }
+}
+
+let github
+let graphQLMode // "ok", "rate-limited" or "malformed"
+
+// Answers /graphql the way GitHub does: one aliased repository owner per variable, null plus a NOT_FOUND error
+// for logins that don't resolve
+function answerGraphQL(request) {
+  if (request.headers.authorization !== "Bearer good") {
+    return { status: 401, body: { message: "Bad credentials" } }
+  }
+  if (graphQLMode === "rate-limited") {
+    return { body: { data: null, errors: [{ type: "RATE_LIMITED", message: "API rate limit exceeded" }] } }
+  }
+  const data = { rateLimit: { remaining: 4321 } }
+  const errors = []
+  for (const [variable, login] of Object.entries(request.body.variables)) {
+    const alias = `u${variable.slice(1)}`
+    if (login === UNKNOWN) {
+      data[alias] = null
+      errors.push({ type: "NOT_FOUND", path: [alias], message: `Could not resolve to a User: '${login}'.` })
+    } else if (graphQLMode === "malformed") {
+      data[alias] = { login }
+    } else {
+      data[alias] = login === ORGANIZATION ? graphQLOrganization(login) : graphQLUser(login)
+    }
+  }
+  return { body: errors.length > 0 ? { data, errors } : { data } }
+}
+
+function answerRest(request) {
+  const { pathname } = request.url
+  if (pathname === "/api/v3/user") {
+    return request.headers.authorization === "Bearer good"
+      ? { body: restUser("alice"), headers: { "X-OAuth-Scopes": "read:org" } }
+      : { status: 401, body: { message: "Bad credentials" } }
+  }
+  if (pathname === "/api/v3/users/alice") {
+    return { body: { ...restUser("alice"), following: FOLLOWED.length, followers: 0 } }
+  }
+  if (pathname === "/api/v3/users/alice/following") {
+    const page = Number(request.url.searchParams.get("page"))
+    const perPage = Number(request.url.searchParams.get("per_page"))
+    const items = FOLLOWED.slice((page - 1) * perPage, page * perPage).map(simpleUser)
+    const next = `<${github.url}${pathname}?page=${page + 1}>; rel="next"`
+    return { body: items, headers: page * perPage < FOLLOWED.length ? { Link: next } : {} }
+  }
+  if (pathname === "/api/v3/users/alice/followers") {
+    return { body: [] }
+  }
+  const match = pathname.match(/^\/api\/v3\/users\/([^/]+)$/)
+  if (match) {
+    return { body: restUser(decodeURIComponent(match[1])) }
+  }
+  return undefined
+}
+
+before(async () => {
+  github = await startLocalServer((request) =>
+    request.url.pathname === "/api/graphql" ? answerGraphQL(request) : answerRest(request),
+  )
+  process.env.GITHUB_HOST = github.url
+})
+
+after(async () => {
+  await github.close()
+  fs.rmSync(process.env.SNAPSHOT_DIR, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  github.requests.length = 0
+  graphQLMode = "ok"
+})
+
+const graphQLRequests = () => github.requests.filter((request) => request.url.pathname === "/api/graphql")
+const profileRequests = () =>
+  github.requests.filter((request) => /^\/api\/v3\/users\/(?!alice$)[^/]+$/.test(request.url.pathname))
+
+describe("fetchUserProfilesGraphQL", () => {
+  test("maps aliased users to the REST profile shape and reads the points budget", async () => {
+    const rateLimit = {}
+    const profiles = await fetchUserProfilesGraphQL(["user1", "user2"], "good", {
+      rateLimit,
+      endpoint: `${github.url}/api/graphql`,
+    })
+
+    assert.deepEqual(profiles, [restUser("user1"), restUser("user2")])
+    assert.equal(rateLimit.remaining, 4321)
+    assert.equal(graphQLRequests().length, 1)
+    assert.deepEqual(graphQLRequests()[0].body.variables, { l0: "user1", l1: "user2" })
+  })
+
+  test("maps logins GitHub couldn't resolve to null and keeps the rest", async () => {
+    const profiles = await fetchUserProfilesGraphQL(["user1", UNKNOWN, "user2"], "good", {
+      endpoint: `${github.url}/api/graphql`,
+    })
+
+    assert.deepEqual(profiles, [restUser("user1"), null, restUser("user2")])
+  })
+
+  test("reports a RATE_LIMITED error as a rate limit error", async () => {
+    graphQLMode = "rate-limited"
+    const result = await fetchUserProfilesGraphQL(["user1"], "good", { endpoint: `${github.url}/api/graphql` })
+
+    assert.equal(result.isRateLimitError, true)
+  })
+
+  test("resolves organizations, without the follower count GraphQL doesn't have for them", async () => {
+    const profiles = await fetchUserProfilesGraphQL([ORGANIZATION, "user1"], "good", {
+      endpoint: `${github.url}/api/graphql`,
+    })
+
+    const { followers, ...organization } = restUser(ORGANIZATION)
+    assert.deepEqual(profiles, [{ ...organization, type: "Organization", following: 0 }, restUser("user1")])
+  })
+
+  test("rejects nodes that don't match the schema", async () => {
+    graphQLMode = "malformed"
+    const result = await fetchUserProfilesGraphQL(["user1"], "good", { endpoint: `${github.url}/api/graphql` })
+
+    assert.equal(result.isMalformedResponse, true)
+  })
+
+  test("refuses batches larger than GRAPHQL_BATCH_SIZE without calling GitHub", async () => {
+    const logins = Array.from({ length: GRAPHQL_BATCH_SIZE + 1 }, (_, index) => `user${index}`)
+    const result = await fetchUserProfilesGraphQL(logins, "good", { endpoint: `${github.url}/api/graphql` })
+
+    assert.match(result.error, /limited to 100/)
+    assert.equal(github.requests.length, 0)
+  })
+})
+
+describe("scanRelationships enrichment", () => {
+  test("resolves profiles in batches of 100 through GraphQL when there is a token", async () => {
+    const result = await scanRelationships("alice", "good", "not-following-back", { forceRefresh: true })
+
+    assert.equal(result.error, undefined)
+    assert.deepEqual(
+      graphQLRequests().map((request) => Object.keys(request.body.variables).length),
+      [100, 50],
+    )
+    assert.equal(profileRequests().length, 0)
+    assert.equal(result.relationships.followingOnly.length, FOLLOWED.length)
+    assert.equal(result.hasPartialDataError, false)
+    assert.equal(result.relationships.followingOnly.at(-1).type, "Organization")
+  })
+
+  test("falls back to one REST call per login without a token", async () => {
+    const result = await scanRelationships("alice", undefined, "not-following-back", { forceRefresh: true })
+
+    assert.equal(result.error, undefined)
+    assert.equal(graphQLRequests().length, 0)
+    assert.equal(profileRequests().length, FOLLOWED.length)
+    assert.deepEqual(result.relationships.followingOnly[0], restUser("user0"))
+  })
+
+  test("reports the logins of a failed batch as failed instead of failing the scan", async () => {
+    graphQLMode = "rate-limited"
+    const result = await scanRelationships("alice", "good", "not-following-back", { forceRefresh: true })
+
+    assert.match(result.error, /150 could not be fetched/)
+    assert.equal(result.hasPartialDataError, true)
+    assert.equal(result.counts.followingOnly, FOLLOWED.length)
+    assert.equal(result.failedLogins.length, FOLLOWED.length)
+  })
+})
@@ -0,0 +1,81 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const { afterEach, beforeEach, describe, test } = require("node:test")
+
+const { getGitHubHosts, resolveGitHubHost } = require("@/lib/github-hosts")
+
+const VARIABLES = ["GITHUB_HOST", "GITHUB_ENTERPRISE_HOSTS", "GITHUB_API_BASE_URL", "GITHUB_GRAPHQL_URL"]
+let saved
+
+beforeEach(() => {
+  saved = Object.fromEntries(VARIABLES.map((name) => [name, process.env[name]]))
+  for (const name of VARIABLES) {
+    delete process.env[name]
+  }
+  process.env.GITHUB_ENTERPRISE_HOSTS = "GitHub.Example.com, http://ghe.local:8080, https://bad host"
+})
+
+afterEach(() => {
+  for (const [name, value] of Object.entries(saved)) {
+    if (value === undefined) {
+      delete process.env[name]
+    } else {
+      process.env[name] = value
+    }
+  }
+})
+
+describe("resolveGitHubHost", () => {
+  test("serves github.com's APIs from api.github.com", () => {
+    assert.deepEqual(resolveGitHubHost(), {
+      host: "github.com",
+      apiBaseUrl: "https://api.github.com",
+      graphqlUrl: "https://api.github.com/graphql",
+      webUrl: "https://github.com",
+    })
+  })
+
+  test("serves an Enterprise Server's APIs under /api on its own origin, matching the host in any case", () => {
+    assert.deepEqual(resolveGitHubHost("GITHUB.example.COM"), {
+      host: "github.example.com",
+      apiBaseUrl: "https://github.example.com/api/v3",
+      graphqlUrl: "https://github.example.com/api/graphql",
+      webUrl: "https://github.example.com",
+    })
+  })
+
+  test("keeps the scheme and port of a scheme://host:port entry", () => {
+    assert.deepEqual(resolveGitHubHost("ghe.local:8080"), {
+      host: "ghe.local:8080",
+      apiBaseUrl: "http://ghe.local:8080/api/v3",
+      graphqlUrl: "http://ghe.local:8080/api/graphql",
+      webUrl: "http://ghe.local:8080",
+    })
+  })
+
+  test("derives the default host from GITHUB_HOST, with explicit endpoint overrides", () => {
+    process.env.GITHUB_HOST = "http://127.0.0.1:3001"
+    process.env.GITHUB_GRAPHQL_URL = "http://127.0.0.1:3002/graphql"
+
+    assert.deepEqual(resolveGitHubHost(), {
+      host: "127.0.0.1:3001",
+      apiBaseUrl: "http://127.0.0.1:3001/api/v3",
+      graphqlUrl: "http://127.0.0.1:3002/graphql",
+      webUrl: "http://127.0.0.1:3001",
+    })
+  })
+
+  test("refuses hosts that aren't configured", () => {
+    assert.match(resolveGitHubHost("evil.example").error, /not configured/)
+  })
+})
+
+describe("getGitHubHosts", () => {
+  test("lists the default host first and skips invalid entries", () => {
+    assert.deepEqual(
+      getGitHubHosts().map((host) => host.host),
+      ["github.com", "github.example.com", "ghe.local:8080"],
+    )
+  })
+})
@@ -0,0 +1,75 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const { describe, test } = require("node:test")
+
+const { groupJournalBatches } = require("@/lib/journal")
+
+let nextAt = 1000
+const entry = (fields) => ({
+  id: `entry-${nextAt}`,
+  batchId: "batch-1",
+  action: "unfollow",
+  target: "bob",
+  actor: "alice",
+  tokenFingerprint: "abc",
+  host: "github.com",
+  status: "succeeded",
+  at: nextAt++,
+  ...fields,
+})
+
+describe("groupJournalBatches", () => {
+  test("groups entries by batch, oldest entry first, newest batch first", () => {
+    const first = entry({ target: "bob" })
+    const second = entry({ target: "carol", status: "failed" })
+    const later = entry({ batchId: "batch-2", action: "follow", target: "dave" })
+
+    const batches = groupJournalBatches([first, later, second])
+    assert.deepEqual(
+      batches.map((batch) => [batch.batchId, batch.action, batch.entries.map((grouped) => grouped.target)]),
+      [
+        ["batch-2", "follow", ["dave"]],
+        ["batch-1", "unfollow", ["bob", "carol"]],
+      ],
+    )
+    assert.equal(batches[1].startedAt, first.at)
+  })
+
+  test("keeps batches of different actors and hosts apart even when their ids match", () => {
+    const batches = groupJournalBatches([
+      entry({ target: "bob" }),
+      entry({ actor: "mallory", target: "carol" }),
+      entry({ host: "github.example.com", target: "dave" }),
+      entry({ actor: "ALICE", target: "erin" }), // GitHub logins are case-insensitive
+    ])
+
+    assert.deepEqual(
+      batches.map((batch) => [batch.host, batch.actor, batch.entries.map((grouped) => grouped.target)]).sort(),
+      [
+        ["github.com", "alice", ["bob", "erin"]],
+        ["github.com", "mallory", ["carol"]],
+        ["github.example.com", "alice", ["dave"]],
+      ],
+    )
+  })
+
+  test("links a batch to the undo that reversed it", () => {
+    const batches = groupJournalBatches([
+      entry({ target: "bob" }),
+      entry({ batchId: "undo-1", action: "follow", target: "bob", undoOf: "batch-1" }),
+    ])
+
+    assert.equal(batches.find((batch) => batch.batchId === "batch-1").undoneBy, "undo-1")
+  })
+
+  test("ignores undos that changed nothing or were run by someone else", () => {
+    const batches = groupJournalBatches([
+      entry({ target: "bob" }),
+      entry({ batchId: "undo-1", action: "follow", target: "bob", status: "failed", undoOf: "batch-1" }),
+      entry({ batchId: "undo-2", action: "follow", actor: "mallory", target: "bob", undoOf: "batch-1" }),
+    ])
+
+    assert.equal(batches.find((batch) => batch.batchId === "batch-1").undoneBy, undefined)
+  })
+})
@@ -0,0 +1,196 @@
+// Sign-in against scripts/mock-oauth-provider.mjs, through the auth route handlers
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const { spawn } = require("node:child_process")
+const net = require("node:net")
+const path = require("node:path")
+const { after, before, describe, test } = require("node:test")
+
+const { NextRequest } = require("next/server")
+
+const APP = "http://app.test"
+const TOKEN = "gho_mock_test_token"
+
+process.env.GITHUB_CLIENT_ID = "client-id"
+process.env.GITHUB_CLIENT_SECRET = "client-secret"
+process.env.SESSION_SECRET = "session-secret"
+
+const { GET: login } = require("@/app/api/auth/login/route")
+const { GET: callback } = require("@/app/api/auth/callback/route")
+const { POST: startDevice } = require("@/app/api/auth/device/route")
+const { POST: pollDevice } = require("@/app/api/auth/device/token/route")
+const { OAUTH_STATE_COOKIE, safeReturnTo } = require("@/lib/oauth")
+const { sealSession, SESSION_COOKIE, unsealSession } = require("@/lib/session")
+
+let provider
+let providerUrl
+
+async function freePort() {
+  const server = net.createServer()
+  await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve))
+  const { port } = server.address()
+  await new Promise((resolve) => server.close(resolve))
+  return port
+}
+
+before(async () => {
+  const port = await freePort()
+  providerUrl = `http://localhost:${port}`
+  const script = path.join(__dirname, "../../scripts/mock-oauth-provider.mjs")
+  provider = spawn(process.execPath, [script, String(port)], {
+    env: { ...process.env, MOCK_OAUTH_TOKEN: TOKEN, MOCK_OAUTH_LOGIN: "octocat" },
+    stdio: ["ignore", "pipe", "inherit"],
+  })
+  await new Promise((resolve, reject) => {
+    provider.stdout.on("data", (chunk) => chunk.toString().includes("listening") && resolve())
+    provider.on("exit", (code) => reject(new Error(`Mock OAuth provider exited with ${code}`)))
+  })
+  provider.stdout.resume()
+  process.env.GITHUB_OAUTH_URL = providerUrl
+  process.env.GITHUB_HOST = providerUrl // Sign-in looks the token up at the mock's /api/v3/user
+})
+
+after(() => provider.kill())
+
+const cookieHeader = (cookies) => Object.entries(cookies).map(([name, value]) => `${name}=${value}`).join("; ")
+const responseCookie = (response, name) => response.cookies.get(name)?.value
+
+// Runs the login route and the provider's consent page, returning the callback URL and the state cookie
+async function startWebFlow(returnTo = "/compare") {
+  const started = await login(new Request(`${APP}/api/auth/login?returnTo=${encodeURIComponent(returnTo)}`))
+  assert.equal(started.status, 307)
+  const authorize = new URL(started.headers.get("location"))
+  assert.equal(authorize.origin, providerUrl)
+  assert.equal(authorize.searchParams.get("scope"), "user:follow read:org")
+
+  const consent = await fetch(authorize, { redirect: "manual" })
+  assert.equal(consent.status, 302)
+  return {
+    callbackUrl: new URL(consent.headers.get("location")),
+    stateCookie: responseCookie(started, OAUTH_STATE_COOKIE),
+  }
+}
+
+describe("web flow", () => {
+  test("signs in and returns to the page sign-in started from", async () => {
+    const { callbackUrl, stateCookie } = await startWebFlow()
+    assert.equal(`${callbackUrl.origin}${callbackUrl.pathname}`, `${APP}/api/auth/callback`)
+
+    const response = await callback(
+      new NextRequest(callbackUrl, { headers: { cookie: cookieHeader({ [OAUTH_STATE_COOKIE]: stateCookie }) } }),
+    )
+    assert.equal(response.headers.get("location"), `${APP}/compare`)
+    assert.equal(responseCookie(response, OAUTH_STATE_COOKIE), "")
+
+    const session = unsealSession(responseCookie(response, SESSION_COOKIE))
+    assert.equal(session.token, TOKEN)
+    assert.equal(session.login, "octocat")
+    assert.equal(session.host, new URL(providerUrl).host)
+    assert.deepEqual(session.scopes, ["user:follow", "read:org"])
+  })
+
+  test("rejects a callback whose state doesn't match the cookie", async () => {
+    const { callbackUrl, stateCookie } = await startWebFlow()
+    const forged = new URL(callbackUrl)
+    forged.searchParams.set("state", `${forged.searchParams.get("state").slice(0, -1)}x`)
+
+    for (const [url, cookies] of [
+      [forged, { [OAUTH_STATE_COOKIE]: stateCookie }],
+      [callbackUrl, {}], // Started in another browser
+    ]) {
+      const response = await callback(new NextRequest(url, { headers: { cookie: cookieHeader(cookies) } }))
+      const redirect = new URL(response.headers.get("location"))
+      assert.match(redirect.searchParams.get("signInError"), /didn't come from this site/)
+      assert.equal(responseCookie(response, SESSION_COOKIE), undefined)
+    }
+  })
+
+  test("never redirects off-site after signing in", async () => {
+    const { callbackUrl, stateCookie } = await startWebFlow("//evil.example/phish")
+    assert.equal(JSON.parse(stateCookie).returnTo, "/")
+
+    // A state cookie written some other way is checked again
+    const tampered = JSON.stringify({ ...JSON.parse(stateCookie), returnTo: "https://evil.example" })
+    const response = await callback(
+      new NextRequest(callbackUrl, { headers: { cookie: cookieHeader({ [OAUTH_STATE_COOKIE]: tampered }) } }),
+    )
+    assert.equal(response.headers.get("location"), `${APP}/`)
+  })
+})
+
+describe("device flow", () => {
+  const poll = (deviceCode) =>
+    pollDevice(new Request(`${APP}/api/auth/device/token`, { method: "POST", body: JSON.stringify({ deviceCode }) }))
+
+  test("stays pending until the code is entered, then signs in", async () => {
+    const started = await startDevice()
+    assert.equal(started.status, 200)
+    const device = await started.json()
+    assert.equal(device.verificationUri, `${providerUrl}/login/device`)
+
+    assert.equal((await poll(device.deviceCode)).status, 202)
+    await fetch(`${device.verificationUri}?user_code=${device.userCode}`)
+
+    const response = await poll(device.deviceCode)
+    assert.equal(response.status, 200)
+    assert.deepEqual(await response.json(), {
+      login: "octocat",
+      host: new URL(providerUrl).host,
+      scopes: ["user:follow", "read:org"],
+    })
+    assert.equal(unsealSession(responseCookie(response, SESSION_COOKIE)).token, TOKEN)
+  })
+
+  test("rejects unknown device codes", async () => {
+    const response = await poll("not-a-device-code")
+    assert.equal(response.status, 400)
+    assert.match((await response.json()).error, /not valid/)
+  })
+})
+
+describe("session cookie", () => {
+  const session = {
+    token: TOKEN,
+    login: "octocat",
+    host: "github.com",
+    scopes: ["user:follow"],
+    expiresAt: Date.now() + 60_000,
+  }
+
+  test("round-trips through sealing", () => {
+    const sealed = sealSession(session)
+    assert.equal(sealed.includes(TOKEN), false)
+    assert.deepEqual(unsealSession(sealed), session)
+  })
+
+  test("opens nothing tampered with, sealed under another secret, or expired", () => {
+    const sealed = Buffer.from(sealSession(session), "base64url")
+    sealed[sealed.length - 1] ^= 1
+    assert.equal(unsealSession(sealed.toString("base64url")), null)
+    assert.equal(unsealSession("garbage"), null)
+
+    const otherSecret = sealSession(session)
+    process.env.SESSION_SECRET = "another-secret"
+    try {
+      assert.equal(unsealSession(otherSecret), null)
+    } finally {
+      process.env.SESSION_SECRET = "session-secret"
+    }
+
+    assert.equal(unsealSession(sealSession({ ...session, expiresAt: Date.now() - 1 })), null)
+  })
+})
+
+describe("safeReturnTo", () => {
+  test("keeps same-site paths", () => {
+    assert.equal(safeReturnTo("/compare?user=alice"), "/compare?user=alice")
+  })
+
+  test("falls back to / for anything that could leave the site", () => {
+    const values = ["//evil.example", "/\\evil.example", "/\t/evil.example", "/\n/evil.example", "https://evil.example"]
+    for (const value of [...values, "evil.example", "", null]) {
+      assert.equal(safeReturnTo(value), "/", JSON.stringify(value))
+    }
+  })
+})
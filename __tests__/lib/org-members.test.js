@@ -0,0 +1,41 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const { after, before, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+const { MemoryCacheBackend } = require("@/lib/cache/memory")
+const { createRequestContext, getOrgMembers } = require("@/lib/github-api")
+
+describe("getOrgMembers", () => {
+  let github
+
+  const user = (login) => ({ login, avatar_url: "", html_url: "" })
+
+  // Like GitHub, lists members who hid their membership only for a member's token
+  before(async () => {
+    github = await startLocalServer(({ headers }) => ({
+      body: [user("alice"), ...(headers.authorization === "Bearer member-token" ? [user("hidden")] : [])],
+    }))
+  })
+
+  after(() => github.close())
+
+  const host = () => ({ host: "local", apiBaseUrl: github.url, graphqlUrl: "", webUrl: github.url })
+  const cache = { backend: new MemoryCacheBackend(), metrics: { hits: 0, misses: 0, writes: 0 }, forceRefresh: false }
+  const members = async (token) =>
+    (await getOrgMembers(createRequestContext(host(), token, cache), "acme")).map((member) => member.login)
+
+  test("doesn't share a member's list with other callers", async () => {
+    assert.deepEqual(await members("member-token"), ["alice", "hidden"])
+    assert.deepEqual(await members(undefined), ["alice"])
+    assert.deepEqual(await members("outsider-token"), ["alice"])
+  })
+
+  test("still caches each caller's list", async () => {
+    const requests = github.requests.length
+    assert.deepEqual(await members("member-token"), ["alice", "hidden"])
+    assert.deepEqual(await members(undefined), ["alice"])
+    assert.equal(github.requests.length, requests)
+  })
+})
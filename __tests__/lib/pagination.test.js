@@ -0,0 +1,135 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const { after, before, beforeEach, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+const { createRequestContext, fetchAllPages } = require("@/lib/github-api")
+const { simpleUserListSchema } = require("@/lib/github-schemas")
+const { estimateTotalPages, getPageNumber, parseLinkHeader } = require("@/lib/pagination")
+
+describe("parseLinkHeader", () => {
+  test("maps every rel to its URL", () => {
+    const header =
+      '<https://api.github.com/user/1/followers?page=2&per_page=100>; rel="next", ' +
+      '<https://api.github.com/user/1/followers?page=5&per_page=100>; rel="last"'
+
+    assert.deepEqual(parseLinkHeader(header), {
+      next: "https://api.github.com/user/1/followers?page=2&per_page=100",
+      last: "https://api.github.com/user/1/followers?page=5&per_page=100",
+    })
+  })
+
+  test("splits space-separated rels and skips malformed parts", () => {
+    assert.deepEqual(parseLinkHeader('<https://x.test/?page=3>; rel="next last", garbage; rel=next'), {
+      next: "https://x.test/?page=3",
+      last: "https://x.test/?page=3",
+    })
+  })
+
+  test("returns no links for a missing header", () => {
+    assert.deepEqual(parseLinkHeader(null), {})
+    assert.deepEqual(parseLinkHeader(""), {})
+  })
+})
+
+describe("getPageNumber", () => {
+  test("reads a positive integer page parameter", () => {
+    assert.equal(getPageNumber("https://x.test/followers?per_page=100&page=7"), 7)
+  })
+
+  test("ignores missing, zero and non-numeric pages", () => {
+    assert.equal(getPageNumber(undefined), undefined)
+    assert.equal(getPageNumber("https://x.test/followers"), undefined)
+    assert.equal(getPageNumber("https://x.test/followers?page=0"), undefined)
+    assert.equal(getPageNumber("https://x.test/followers?page=two"), undefined)
+  })
+})
+
+describe("estimateTotalPages", () => {
+  test("rounds up and never reports fewer than one page", () => {
+    assert.equal(estimateTotalPages(0, 100), 1)
+    assert.equal(estimateTotalPages(100, 100), 1)
+    assert.equal(estimateTotalPages(101, 100), 2)
+  })
+})
+
+describe("fetchAllPages", () => {
+  const LOGINS = Array.from({ length: 250 }, (_, index) => `user${index}`)
+  let github
+  let sendLast // Whether pages carry rel="last", as github.com does on every page but the final one
+
+  before(async () => {
+    github = await startLocalServer((request) => {
+      if (request.url.pathname === "/users/proxied/followers") {
+        return { status: 502, headers: { "Content-Type": "text/html" }, body: "<html>502 Bad Gateway</html>" }
+      }
+      const page = Number(request.url.searchParams.get("page"))
+      const perPage = Number(request.url.searchParams.get("per_page"))
+      const lastPage = Math.ceil(LOGINS.length / perPage)
+      const link = (number, rel) =>
+        `<${github.url}${request.url.pathname}?page=${number}&per_page=${perPage}>; rel="${rel}"`
+      const links = page < lastPage ? [link(page + 1, "next"), ...(sendLast ? [link(lastPage, "last")] : [])] : []
+      const body = LOGINS.slice((page - 1) * perPage, page * perPage).map((login) => ({
+        login,
+        avatar_url: "",
+        html_url: "",
+      }))
+      return { body, headers: links.length > 0 ? { Link: links.join(", ") } : {} }
+    })
+  })
+
+  after(() => github.close())
+
+  beforeEach(() => {
+    github.requests.length = 0
+    sendLast = true
+  })
+
+  const context = () =>
+    createRequestContext({ host: "local", apiBaseUrl: github.url, graphqlUrl: "", webUrl: github.url })
+
+  test("follows rel=\"next\" until the last page and reports progress", async () => {
+    const progress = []
+    const users = await fetchAllPages(context(), "/users/alice/followers", simpleUserListSchema, (page) =>
+      progress.push(page),
+    )
+
+    assert.deepEqual(
+      users.map((user) => user.login),
+      LOGINS,
+    )
+    assert.deepEqual(progress, [
+      { page: 1, totalPages: 3 },
+      { page: 2, totalPages: 3 },
+      { page: 3, totalPages: 3 },
+    ])
+  })
+
+  test("estimates the total from expectedCount until GitHub reports one", async () => {
+    sendLast = false
+    const progress = []
+    await fetchAllPages(context(), "/users/alice/followers", simpleUserListSchema, (page) => progress.push(page), 180)
+
+    assert.deepEqual(progress, [
+      { page: 1, totalPages: 2 },
+      { page: 2, totalPages: 2 },
+      { page: 3, totalPages: 3 }, // The final page settles the total
+    ])
+  })
+
+  test("stops at the first page that fails validation", async () => {
+    const result = await fetchAllPages(context(), "/users/alice/followers", simpleUserListSchema.length(0))
+
+    assert.equal(result.isMalformedResponse, true)
+    assert.equal(github.requests.length, 1)
+  })
+
+  test("reports an error page that isn't JSON by its status, not as a malformed response", async () => {
+    const result = await fetchAllPages(context(), "/users/proxied/followers", simpleUserListSchema)
+
+    assert.equal(result.error, "GitHub API error: 502")
+    assert.equal(result.status, 502)
+    assert.equal(result.isMalformedResponse, undefined)
+  })
+})
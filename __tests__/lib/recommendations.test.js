@@ -0,0 +1,80 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const { after, before, beforeEach, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+const { createRequestCache } = require("@/lib/cache")
+const { createRequestContext, getFollowing } = require("@/lib/github-api")
+const { resolveGitHubHost } = require("@/lib/github-hosts")
+const { recommendAccounts } = require("@/lib/recommendations")
+
+describe("recommendAccounts", () => {
+  let github
+  let remaining // X-RateLimit-Remaining, counting down with every request
+
+  const user = (login) => ({ login, avatar_url: "", html_url: "" })
+
+  before(async () => {
+    // bob follows an endless list of accounts; carol follows two
+    github = await startLocalServer(({ url }) => {
+      const headers = { "X-RateLimit-Remaining": String(--remaining) }
+      const page = Number(url.searchParams.get("page"))
+      switch (url.pathname.replace(/^\/api\/v3/, "")) {
+        case "/users/alice":
+          return { headers, body: { ...user("alice"), type: "User", followers: 0, following: 2, public_repos: 0 } }
+        case "/users/alice/following":
+          return { headers, body: [user("bob"), user("carol")] }
+        case "/users/carol/following":
+          return { headers, body: [user("dave"), user("bob-0-0")] }
+        case "/users/bob/following": {
+          const next = `<${github.url}${url.pathname}?page=${page + 1}&per_page=100>; rel="next"`
+          const body = Array.from({ length: 100 }, (_, index) => user(`bob-${page - 1}-${index}`))
+          return { headers: { ...headers, Link: next }, body }
+        }
+      }
+    })
+    process.env.GITHUB_HOST = github.url
+  })
+
+  after(() => github.close())
+
+  beforeEach(() => {
+    github.requests.length = 0
+    remaining = 5000
+  })
+
+  const bobPages = () => github.requests.filter((request) => request.url.pathname.endsWith("/bob/following"))
+
+  test("reads at most five pages of each neighbour's following", async () => {
+    const result = await recommendAccounts("alice", undefined, { forceRefresh: true })
+
+    assert.equal(result.error, undefined)
+    assert.equal(bobPages().length, 5)
+    assert.equal(result.expandedCount, 2)
+    assert.deepEqual(result.recommendations[0], { login: "bob-0-0", followedBy: ["bob", "carol"] })
+  })
+
+  test("doesn't cache a neighbour's list that was cut short", async () => {
+    await recommendAccounts("alice", undefined, { forceRefresh: true })
+    const context = createRequestContext(resolveGitHubHost(), undefined, await createRequestCache())
+    github.requests.length = 0
+
+    await getFollowing(context, "carol")
+    assert.equal(github.requests.length, 0) // Complete lists are cached
+    const bob = await getFollowing(context, "bob", undefined, undefined, { maxPages: 2 })
+    assert.equal(bob.length, 200)
+    assert.equal(bobPages().length, 2)
+  })
+
+  test("stops paging a neighbour once the rate limit reaches the reserve", async () => {
+    remaining = 15
+    const result = await recommendAccounts("alice", undefined, { forceRefresh: true, rateLimitReserve: 10 })
+
+    // The profile and alice's following leave 13; bob's pages then run it down to the reserve
+    assert.ok(bobPages().length < 5, `${bobPages().length} pages of bob's following`)
+    assert.ok(remaining >= 10, `${remaining} requests left`)
+    assert.equal(result.error, undefined)
+    assert.equal(result.expandedCount + result.skippedCount, 2)
+  })
+})
@@ -0,0 +1,141 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const net = require("node:net")
+const { after, before, beforeEach, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+const {
+  createRetryStats,
+  fetchWithRetry,
+  getBackoffDelay,
+  isSecondaryRateLimit,
+  parseRetryAfter,
+  totalRetries,
+} = require("@/lib/retry")
+
+// Same shape as DEFAULT_RETRY_POLICY, with delays short enough for a test
+const FAST_POLICY = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 4, maxRetryAfterMs: 1000 }
+
+describe("parseRetryAfter", () => {
+  test("reads seconds and HTTP dates as milliseconds", () => {
+    assert.equal(parseRetryAfter("3"), 3000)
+    const inAMinute = new Date(Date.now() + 60_000).toUTCString()
+    assert.ok(Math.abs(parseRetryAfter(inAMinute) - 60_000) <= 1000)
+  })
+
+  test("clamps past dates to zero and ignores a missing or garbled header", () => {
+    assert.equal(parseRetryAfter(new Date(0).toUTCString()), 0)
+    assert.equal(parseRetryAfter(null), undefined)
+    assert.equal(parseRetryAfter("soon"), undefined)
+  })
+})
+
+describe("getBackoffDelay", () => {
+  test("doubles per attempt with equal jitter and stays under maxDelayMs", () => {
+    const policy = { maxRetries: 5, baseDelayMs: 100, maxDelayMs: 1000, maxRetryAfterMs: 60_000 }
+    for (let attempt = 0; attempt < 6; attempt++) {
+      const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+      for (let sample = 0; sample < 20; sample++) {
+        const delay = getBackoffDelay(attempt, policy)
+        assert.ok(delay >= ceiling / 2 && delay <= ceiling, `attempt ${attempt}: ${delay}`)
+      }
+    }
+  })
+})
+
+describe("isSecondaryRateLimit", () => {
+  test("treats Retry-After or a secondary rate limit message on a 403/429 as the secondary limit", async () => {
+    assert.equal(await isSecondaryRateLimit(new Response("{}", { status: 429, headers: { "Retry-After": "1" } })), true)
+    const abuse = JSON.stringify({ message: "You have exceeded a secondary rate limit." })
+    assert.equal(await isSecondaryRateLimit(new Response(abuse, { status: 403 })), true)
+  })
+
+  test("leaves the primary limit, other errors and successes alone", async () => {
+    const primary = new Response("{}", { status: 403, headers: { "X-RateLimit-Remaining": "0", "Retry-After": "1" } })
+    assert.equal(await isSecondaryRateLimit(primary), false)
+    const forbidden = new Response(JSON.stringify({ message: "Forbidden" }), { status: 403 })
+    assert.equal(await isSecondaryRateLimit(forbidden), false)
+    assert.equal(await isSecondaryRateLimit(new Response("{}", { status: 200 })), false)
+  })
+})
+
+describe("fetchWithRetry", () => {
+  let server
+  let replies // Served in order, one per request; the last one repeats
+
+  before(async () => {
+    server = await startLocalServer(() => (replies.length > 1 ? replies.shift() : replies[0]))
+  })
+
+  after(() => server.close())
+
+  beforeEach(() => {
+    server.requests.length = 0
+  })
+
+  test("retries 502/503/504 until GitHub answers", async () => {
+    replies = [{ status: 502 }, { status: 503 }, { status: 200, body: { ok: true } }]
+    const stats = createRetryStats()
+    const response = await fetchWithRetry(server.url, {}, stats, FAST_POLICY)
+
+    assert.equal(response.status, 200)
+    assert.deepEqual(stats, { secondaryRateLimit: 0, serverError: 2, network: 0 })
+    assert.equal(server.requests.length, 3)
+  })
+
+  test("returns the last response once maxRetries is spent", async () => {
+    replies = [{ status: 503 }]
+    const stats = createRetryStats()
+    const response = await fetchWithRetry(server.url, {}, stats, FAST_POLICY)
+
+    assert.equal(response.status, 503)
+    assert.equal(totalRetries(stats), FAST_POLICY.maxRetries)
+    assert.equal(server.requests.length, FAST_POLICY.maxRetries + 1)
+  })
+
+  test("waits out a secondary rate limit for as long as Retry-After asks", async () => {
+    replies = [{ status: 403, headers: { "Retry-After": "0" } }, { status: 200 }]
+    const stats = createRetryStats()
+    const response = await fetchWithRetry(server.url, {}, stats, FAST_POLICY)
+
+    assert.equal(response.status, 200)
+    assert.equal(stats.secondaryRateLimit, 1)
+  })
+
+  test("gives up at once when Retry-After is longer than maxRetryAfterMs", async () => {
+    replies = [{ status: 429, headers: { "Retry-After": "120" } }]
+    const stats = createRetryStats()
+    const response = await fetchWithRetry(server.url, {}, stats, FAST_POLICY)
+
+    assert.equal(response.status, 429)
+    assert.equal(totalRetries(stats), 0)
+    assert.equal(server.requests.length, 1)
+  })
+
+  test("never retries the primary rate limit or client errors", async () => {
+    for (const reply of [
+      { status: 403, headers: { "X-RateLimit-Remaining": "0" } },
+      { status: 404, body: { message: "Not Found" } },
+    ]) {
+      replies = [reply]
+      server.requests.length = 0
+      const response = await fetchWithRetry(server.url, {}, createRetryStats(), FAST_POLICY)
+
+      assert.equal(response.status, reply.status)
+      assert.equal(server.requests.length, 1)
+    }
+  })
+
+  test("retries network errors, then rethrows the last one", async () => {
+    // A port that was just free is very unlikely to be taken again within the test
+    const closed = net.createServer()
+    await new Promise((resolve) => closed.listen(0, "127.0.0.1", resolve))
+    const { port } = closed.address()
+    await new Promise((resolve) => closed.close(resolve))
+
+    const stats = createRetryStats()
+    await assert.rejects(fetchWithRetry(`http://127.0.0.1:${port}`, {}, stats, FAST_POLICY))
+    assert.equal(stats.network, FAST_POLICY.maxRetries)
+  })
+})
@@ -0,0 +1,64 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const fs = require("node:fs")
+const os = require("node:os")
+const path = require("node:path")
+const { after, before, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+
+process.env.SNAPSHOT_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "scan-test-"))
+
+const { scanRelationships } = require("@/lib/scan")
+
+describe("scanRelationships buckets", () => {
+  let github
+
+  const user = (login) => ({ login, avatar_url: "", html_url: "" })
+
+  // alice's following and followers lists spell bob's login in different cases
+  before(async () => {
+    github = await startLocalServer(({ url }) => {
+      switch (url.pathname) {
+        case "/api/v3/users/alice":
+          return { body: { ...user("alice"), type: "User", followers: 2, following: 2, public_repos: 0 } }
+        case "/api/v3/users/alice/following":
+          return { body: [user("Bob"), user("carol")] }
+        case "/api/v3/users/alice/followers":
+          return { body: [user("bob"), user("Dave")] }
+      }
+      const login = url.pathname.match(/^\/api\/v3\/users\/([^/]+)$/)?.[1]
+      return login && { body: { ...user(login), type: "User", followers: 0, following: 0, public_repos: 0 } }
+    })
+    process.env.GITHUB_HOST = github.url
+  })
+
+  after(async () => {
+    await github.close()
+    fs.rmSync(process.env.SNAPSHOT_DIR, { recursive: true, force: true })
+  })
+
+  test("splits mutuals, following-only and followers-only without regard to case", async () => {
+    const result = await scanRelationships("alice", undefined, "all", { forceRefresh: true })
+    const logins = (bucket) => result.relationships[bucket].map((enriched) => enriched.login)
+
+    assert.equal(result.error, undefined)
+    assert.deepEqual(logins("mutuals"), ["Bob"])
+    assert.deepEqual(logins("followingOnly"), ["carol"])
+    assert.deepEqual(logins("followersOnly"), ["Dave"])
+    assert.deepEqual(result.counts, { mutuals: 1, followingOnly: 1, followersOnly: 1 })
+  })
+
+  test("enriches only the buckets the check type asks for", async () => {
+    const result = await scanRelationships("alice", undefined, "not-followed-back", { forceRefresh: true })
+
+    assert.deepEqual(result.relationships.mutuals, [])
+    assert.deepEqual(result.relationships.followingOnly, [])
+    assert.deepEqual(
+      result.relationships.followersOnly.map((enriched) => enriched.login),
+      ["Dave"],
+    )
+    assert.deepEqual(result.counts, { mutuals: 1, followingOnly: 1, followersOnly: 1 })
+  })
+})
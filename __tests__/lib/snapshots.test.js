@@ -0,0 +1,133 @@
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const fs = require("node:fs")
+const os = require("node:os")
+const path = require("node:path")
+const { after, before, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+
+process.env.SNAPSHOT_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "snapshots-test-"))
+
+const { createRequestCache } = require("@/lib/cache")
+const { createRequestContext, getFollowers, getFollowing } = require("@/lib/github-api")
+const { resolveGitHubHost } = require("@/lib/github-hosts")
+const { scanRelationships } = require("@/lib/scan")
+const { getSnapshotStore, recordSnapshot } = require("@/lib/snapshots")
+const { snapshotWatchlist } = require("@/lib/snapshots/watchlist")
+
+after(() => fs.rmSync(process.env.SNAPSHOT_DIR, { recursive: true, force: true }))
+
+const snapshot = (username, takenAt, followers, following = []) => ({
+  host: "github.com",
+  username,
+  takenAt,
+  followers,
+  following,
+})
+
+describe("recordSnapshot", () => {
+  test("saves the first snapshot without reporting changes", async () => {
+    assert.equal(await recordSnapshot(snapshot("alice", 1000, ["bob", "carol"])), undefined)
+    assert.equal((await getSnapshotStore().list("github.com", "alice")).length, 1)
+  })
+
+  test("reports who unfollowed and who followed since the latest snapshot", async () => {
+    const changes = await recordSnapshot(snapshot("alice", 2000, ["carol", "dave"]))
+
+    assert.deepEqual(changes.unfollowers, ["bob"])
+    assert.deepEqual(changes.newFollowers, ["dave"])
+  })
+
+  test("skips snapshots that match the latest one", async () => {
+    assert.equal(await recordSnapshot(snapshot("alice", 3000, ["DAVE", "carol"])), undefined)
+    assert.equal((await getSnapshotStore().list("github.com", "alice")).length, 2)
+  })
+
+  test("skips snapshots no newer than the latest one", async () => {
+    assert.equal(await recordSnapshot(snapshot("alice", 1500, ["erin"])), undefined)
+    assert.deepEqual(
+      (await getSnapshotStore().list("github.com", "alice")).map((stored) => stored.takenAt),
+      [1000, 2000],
+    )
+  })
+})
+
+describe("scan snapshots", () => {
+  let github
+
+  before(async () => {
+    const user = (login) => ({ login, avatar_url: "", html_url: "" })
+    github = await startLocalServer(({ url }) => {
+      switch (url.pathname) {
+        case "/api/v3/users/frank":
+          return { body: { ...user("frank"), type: "User", followers: 1, following: 1, public_repos: 0 } }
+        case "/api/v3/users/frank/followers":
+          return { body: [user("grace")] }
+        case "/api/v3/users/frank/following":
+          return { body: [user("heidi")] }
+      }
+    })
+    process.env.GITHUB_HOST = github.url
+  })
+
+  after(() => github.close())
+
+  test("are stamped with the time the lists were fetched, not when they were read from the cache", async () => {
+    // Another page (e.g. /compare) fetches the lists first and leaves them in the cache
+    const context = createRequestContext(resolveGitHubHost(), undefined, await createRequestCache())
+    const fetchedBefore = Date.now()
+    await getFollowers(context, "frank")
+    await getFollowing(context, "frank")
+    const fetchedAfter = Date.now()
+    await new Promise((resolve) => setTimeout(resolve, 50))
+
+    const requestsBeforeScan = github.requests.length
+    const result = await scanRelationships("frank", undefined, "not-following-back", { skipEnrichment: true })
+    assert.equal(result.error, undefined)
+    assert.equal(github.requests.length, requestsBeforeScan + 1) // Only the profile; both lists were cache hits
+
+    const [stored] = await getSnapshotStore().list(new URL(github.url).host, "frank")
+    assert.ok(stored.takenAt >= fetchedBefore && stored.takenAt <= fetchedAfter, `takenAt ${stored.takenAt}`)
+  })
+})
+
+describe("snapshotWatchlist", () => {
+  let github
+  let remaining // X-RateLimit-Remaining, counting down with every request
+
+  before(async () => {
+    const user = (login) => ({ login, avatar_url: "", html_url: "" })
+    // ivan has an endless list of followers
+    github = await startLocalServer(({ url }) => {
+      const headers = { "X-RateLimit-Limit": "100", "X-RateLimit-Remaining": String(--remaining) }
+      const page = Number(url.searchParams.get("page"))
+      switch (url.pathname) {
+        case "/api/v3/users/ivan":
+          return { headers, body: { ...user("ivan"), type: "User", followers: 10_000, following: 0, public_repos: 0 } }
+        case "/api/v3/users/ivan/following":
+          return { headers, body: [] }
+        case "/api/v3/users/ivan/followers": {
+          const next = `<${github.url}${url.pathname}?page=${page + 1}&per_page=100>; rel="next"`
+          const body = Array.from({ length: 100 }, (_, index) => user(`follower-${page}-${index}`))
+          return { headers: { ...headers, Link: next }, body }
+        }
+      }
+    })
+    process.env.GITHUB_HOST = github.url
+  })
+
+  after(() => github.close())
+
+  test("stops an account's scan partway once the host is down to its reserve", async () => {
+    remaining = 15
+    const { results } = await snapshotWatchlist([{ username: "ivan" }])
+
+    // The profile and the following list leave 13; three pages of followers then reach the reserve of 10
+    assert.equal(results[0].status, "skipped")
+    assert.match(results[0].error, /keep 10 requests/)
+    assert.equal(remaining, 10)
+    assert.deepEqual(await getSnapshotStore().list(new URL(github.url).host, "ivan"), [])
+  })
+})
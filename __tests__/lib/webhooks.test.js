@@ -0,0 +1,169 @@
+// Webhook signing, payloads and delivery against a local HTTP receiver
+require("../helpers/register-ts")
+
+const assert = require("node:assert/strict")
+const { createHmac } = require("node:crypto")
+const fs = require("node:fs")
+const os = require("node:os")
+const path = require("node:path")
+const { after, afterEach, before, beforeEach, describe, test } = require("node:test")
+
+const { startLocalServer } = require("../helpers/local-server")
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "webhooks-test-"))
+process.env.WEBHOOK_LOG_PATH = path.join(directory, "deliveries.jsonl")
+process.env.WEBHOOK_SECRET = "s3cret"
+
+const { buildFollowerChangeEvent, deliverWebhook, getWebhookTargets, signWebhookBody } = require("@/lib/webhooks")
+const { readDeliveryLog } = require("@/lib/webhooks/log")
+
+after(() => fs.rmSync(directory, { recursive: true, force: true }))
+
+const githubDotCom = { host: "github.com", apiBaseUrl: "", graphqlUrl: "", webUrl: "https://github.com" }
+const snapshot = {
+  host: "github.com",
+  username: "alice",
+  takenAt: 1_700_000_000_000,
+  followers: ["carol", "dave"],
+  following: ["bob"],
+}
+const changes = { newFollowers: ["dave"], unfollowers: ["bob"], startedFollowing: [], stoppedFollowing: [] }
+
+const expectedSignature = (body) => `sha256=${createHmac("sha256", "s3cret").update(body).digest("hex")}`
+
+describe("signWebhookBody", () => {
+  test("matches GitHub's X-Hub-Signature-256 format", () => {
+    assert.equal(
+      signWebhookBody("Hello, World!", "It's a Secret to Everybody"),
+      "sha256=757107ea0eb2509fc211221cce984b8a37570b6d7586c22c46f4379c8b043e17",
+    )
+  })
+})
+
+describe("getWebhookTargets", () => {
+  afterEach(() => delete process.env.NOTIFY_WEBHOOKS)
+
+  test("parses format prefixes and skips invalid entries", () => {
+    process.env.NOTIFY_WEBHOOKS =
+      "slack:https://hooks.example/a, https://example.com/hook,ftp://nope,discord:https://d.example/x"
+
+    assert.deepEqual(getWebhookTargets(), [
+      { url: "https://hooks.example/a", format: "slack" },
+      { url: "https://example.com/hook", format: "json" },
+      { url: "https://d.example/x", format: "discord" },
+    ])
+  })
+})
+
+describe("buildFollowerChangeEvent", () => {
+  afterEach(() => delete process.env.SNAPSHOT_WATCHLIST)
+
+  test("announces accounts on the watchlist", () => {
+    process.env.SNAPSHOT_WATCHLIST = "someone-else,ALICE"
+
+    assert.deepEqual(buildFollowerChangeEvent(snapshot, changes, githubDotCom), {
+      event: "followers.changed",
+      host: "github.com",
+      webUrl: "https://github.com",
+      username: "alice",
+      takenAt: snapshot.takenAt,
+      newFollowers: ["dave"],
+      unfollowers: ["bob"],
+      followers: 2,
+      following: 1,
+    })
+  })
+
+  test("ignores accounts that aren't watched, including the same login on another host", () => {
+    process.env.SNAPSHOT_WATCHLIST = "bob"
+    assert.equal(buildFollowerChangeEvent(snapshot, changes, githubDotCom), undefined)
+
+    process.env.SNAPSHOT_WATCHLIST = "alice"
+    const enterprise = { ...githubDotCom, host: "github.example.com", webUrl: "https://github.example.com" }
+    assert.equal(buildFollowerChangeEvent({ ...snapshot, host: enterprise.host }, changes, enterprise), undefined)
+  })
+
+  test("ignores snapshots whose only changes are in the account's own following", () => {
+    process.env.SNAPSHOT_WATCHLIST = "alice"
+    const followingOnly = { newFollowers: [], unfollowers: [], startedFollowing: ["erin"], stoppedFollowing: [] }
+
+    assert.equal(buildFollowerChangeEvent(snapshot, followingOnly, githubDotCom), undefined)
+  })
+})
+
+describe("deliverWebhook", () => {
+  let receiver
+  let replies // Served in order, one per request; the last one repeats
+
+  before(async () => {
+    receiver = await startLocalServer(() => (replies.length > 1 ? replies.shift() : replies[0]))
+  })
+
+  after(() => receiver.close())
+
+  beforeEach(() => {
+    receiver.requests.length = 0
+    replies = [{ status: 204, body: "" }]
+  })
+
+  const event = () => {
+    process.env.SNAPSHOT_WATCHLIST = "alice"
+    const built = buildFollowerChangeEvent(snapshot, changes, githubDotCom)
+    delete process.env.SNAPSHOT_WATCHLIST
+    return built
+  }
+
+  test("posts the event signed with WEBHOOK_SECRET", async () => {
+    const delivery = await deliverWebhook({ url: `${receiver.url}/hook`, format: "json" }, event())
+
+    assert.equal(delivery.status, "delivered")
+    assert.equal(receiver.requests.length, 1)
+    const [request] = receiver.requests
+    assert.equal(request.method, "POST")
+    assert.equal(request.headers["x-follower-check-event"], "followers.changed")
+    assert.equal(request.headers["x-follower-check-delivery"], delivery.id)
+    assert.equal(request.headers["x-follower-check-signature-256"], expectedSignature(request.raw))
+    assert.deepEqual(request.body, event())
+  })
+
+  test("sends Slack receivers an \"unfollowed you\" message instead of the raw event", async () => {
+    await deliverWebhook({ url: receiver.url, format: "slack" }, event())
+
+    const [request] = receiver.requests
+    assert.equal(request.headers["x-follower-check-signature-256"], expectedSignature(request.raw))
+    assert.match(request.body.text, /<https:\/\/github\.com\/bob\|bob> unfollowed you/)
+    assert.match(request.body.text, /<https:\/\/github\.com\/dave\|dave> followed you/)
+  })
+
+  test("retries a 503 and logs the delivery with a redacted URL", async () => {
+    replies = [{ status: 503, headers: { "Retry-After": "0" } }, { status: 200, body: {} }]
+    const delivery = await deliverWebhook({ url: `${receiver.url}/secret-token`, format: "json" }, event())
+
+    assert.equal(delivery.status, "delivered")
+    assert.equal(delivery.attempts, 2)
+    const [logged] = await readDeliveryLog(1)
+    assert.equal(logged.id, delivery.id)
+    assert.equal(logged.target, `${receiver.url}/…`)
+  })
+
+  test("retries a receiver's 500 and 429 too", async () => {
+    replies = [
+      { status: 500, headers: { "Retry-After": "0" }, body: {} },
+      { status: 429, headers: { "Retry-After": "0" }, body: {} },
+      { status: 200, body: {} },
+    ]
+    const delivery = await deliverWebhook({ url: receiver.url, format: "json" }, event())
+
+    assert.equal(delivery.status, "delivered")
+    assert.equal(delivery.attempts, 3)
+  })
+
+  test("records receivers that keep failing", async () => {
+    replies = [{ status: 400, body: { error: "bad payload" } }]
+    const delivery = await deliverWebhook({ url: receiver.url, format: "json" }, event())
+
+    assert.equal(delivery.status, "failed")
+    assert.equal(delivery.statusCode, 400)
+    assert.equal(receiver.requests.length, 1)
+  })
+})
@@ -3,15 +3,17 @@
 /**
  * Test Runner for Configuration Validation
  * 
- * Runs all configuration tests for package.json and pnpm-lock.yaml
+ * Runs all configuration tests for package.json and pnpm-lock.yaml, then the
+ * node:test suites for the modules under lib/ (__tests__/lib/*.test.js)
  */
 
 const { spawn } = require('child_process');
+const fs = require('fs');
 const path = require('path');
 
 function runTest(testFile) {
   return new Promise((resolve, reject) => {
-    const testPath = path.join(__dirname, 'config', testFile);
+    const testPath = path.join(__dirname, testFile);
     const child = spawn('node', [testPath], {
       stdio: 'inherit',
       cwd: path.join(__dirname, '..')
@@ -36,9 +38,13 @@ async function runAllTests() {
   console.log('='.repeat(60));
   
   const tests = [
-    'package-json.test.js',
-    'pnpm-lock.test.js',
-    'package-consistency.test.js'
+    'config/package-json.test.js',
+    'config/pnpm-lock.test.js',
+    'config/package-consistency.test.js',
+    ...fs.readdirSync(path.join(__dirname, 'lib'))
+      .filter((file) => file.endsWith('.test.js'))
+      .sort()
+      .map((file) => `lib/${file}`)
   ];
   
   let allPassed = true;
@@ -1,162 +1,118 @@
 "use server"
 
-interface GitHubUser {
-  login: string
-  avatar_url: string
-  html_url: string
-  followers?: number
-  following?: number
-  public_repos?: number
-  // Removed public_gists
-}
-
-interface GetNonFollowersResult {
-  users?: GitHubUser[]
-  error?: string
-  isRateLimitError?: boolean // Indicates a critical rate limit error (e.g., for main following/followers lists)
-  hasPartialDataError?: boolean // Indicates some supplementary data (like stars) couldn't be fetched
-}
-
-const GITHUB_API_BASE_URL = "https://api.github.com"
+import { cookies } from "next/headers"
+
+import { compareNetworks, type CompareNetworksOptions, type CompareNetworksResult } from "@/lib/compare"
+import { followBack, loadJournal, type FollowActionResult, type JournalResult } from "@/lib/follow-actions"
+import { getGitHubHosts, type GitHubHostSummary } from "@/lib/github-hosts"
+import {
+  loadFollowerChanges,
+  loadFollowerTimeline,
+  type FollowerChangesResult,
+  type FollowerTimelineResult,
+} from "@/lib/history"
+import { getOAuthApp } from "@/lib/oauth"
+import { recommendAccounts, type RecommendationsOptions, type RecommendationsResult } from "@/lib/recommendations"
+import {
+  scanRelationships,
+  type CheckType,
+  type GetNonFollowersOptions,
+  type GetNonFollowersResult,
+} from "@/lib/scan"
+import { getSession, resolveToken, SESSION_COOKIE, type SessionStatus } from "@/lib/session"
+import { analyzeOrganization, analyzeTeam, type TeamAnalysisOptions, type TeamAnalysisResult } from "@/lib/team"
+import { inspectToken, type TokenInspectionResult } from "@/lib/token-inspection"
 
-async function fetchGitHubApi(
-  path: string,
+export async function getNonFollowers(
+  username: string,
   token?: string,
-  page = 1,
-  per_page = 100,
-): Promise<any[] | { error: string; isRateLimitError?: boolean }> {
-  const headers: HeadersInit = {
-    "X-GitHub-Api-Version": "2022-11-28",
-    Accept: "application/vnd.github+json",
-  }
-  if (token) {
-    headers.Authorization = `Bearer ${token}`
-  }
-
-  const url = `${GITHUB_API_BASE_URL}${path}?page=${page}&per_page=${per_page}`
-
-  try {
-    const response = await fetch(url, { headers, next: { revalidate: 3600 } }) // Revalidate every hour
+  checkType: CheckType = "not-following-back",
+  options: GetNonFollowersOptions = {},
+): Promise<GetNonFollowersResult> {
+  return scanRelationships(username, await resolveToken(token, options.host), checkType, options)
+}
 
-    if (response.status === 403 && response.headers.get("X-RateLimit-Remaining") === "0") {
-      return {
-        error: "GitHub API rate limit exceeded. Please provide a Personal Access Token.",
-        isRateLimitError: true,
-      }
-    }
+// Hosts a search can target, for the host picker. Endpoint URLs stay on the server.
+export async function listGitHubHosts(): Promise<GitHubHostSummary[]> {
+  return getGitHubHosts().map(({ host, webUrl }) => ({ host, webUrl }))
+}
 
-    if (!response.ok) {
-      const errorData = await response.json()
-      return { error: errorData.message || `GitHub API error: ${response.status}`, isRateLimitError: false }
-    }
+// Who unfollowed, newly followed, or was (un)followed between the two latest snapshots of `username`
+export async function getFollowerChanges(username: string, host?: string): Promise<FollowerChangesResult> {
+  return loadFollowerChanges(username, host)
+}
 
-    return await response.json()
-  } catch (error) {
-    console.error("Error fetching from GitHub API:", error)
-    return { error: "Failed to connect to GitHub API.", isRateLimitError: false }
-  }
+// Follower, following and mutual counts over every stored snapshot of `username`, for the timeline chart
+export async function getFollowerTimeline(username: string, host?: string): Promise<FollowerTimelineResult> {
+  return loadFollowerTimeline(username, host)
 }
 
-async function fetchAllPages(
-  path: string,
+// Shared followers and followings of two accounts, and who follows one but not the other
+export async function compareUsers(
+  firstUsername: string,
+  secondUsername: string,
   token?: string,
-): Promise<any[] | { error: string; isRateLimitError?: boolean }> {
-  let allData: any[] = []
-  let page = 1
-  let hasMore = true
-
-  while (hasMore) {
-    const data = await fetchGitHubApi(path, token, page)
-
-    if ("error" in data) {
-      return data // Propagate error
-    }
+  options: CompareNetworksOptions = {},
+): Promise<CompareNetworksResult> {
+  return compareNetworks(firstUsername, secondUsername, await resolveToken(token, options.host), options)
+}
 
-    if (data.length === 0 || data.length < 100) {
-      hasMore = false
-    }
-    allData = allData.concat(data)
-    page++
-  }
-  return allData
+// Who follows whom within a team, with per-member reciprocity
+export async function analyzeTeamNetwork(
+  usernames: string[],
+  token?: string,
+  options: TeamAnalysisOptions = {},
+): Promise<TeamAnalysisResult> {
+  return analyzeTeam(usernames, await resolveToken(token, options.host), options)
 }
 
-async function getUserDetails(username: string, token?: string): Promise<GitHubUser | null> {
-  const userData = await fetchGitHubApi(`/users/${username}`, token)
-  if ("error" in userData) {
-    return null // Return null if user details cannot be fetched
-  }
-  return {
-    login: userData.login,
-    avatar_url: userData.avatar_url,
-    html_url: userData.html_url,
-    followers: userData.followers,
-    following: userData.following,
-    public_repos: userData.public_repos,
-    // Removed public_gists
-  }
+// The team analysis over an organization's visible members
+export async function analyzeOrganizationNetwork(
+  org: string,
+  token?: string,
+  options: TeamAnalysisOptions = {},
+): Promise<TeamAnalysisResult> {
+  return analyzeOrganization(org, await resolveToken(token, options.host), options)
 }
 
-export async function getNonFollowers(
+// Accounts followed by many of the people `username` follows, that `username` doesn't follow yet
+export async function getFollowRecommendations(
   username: string,
   token?: string,
-  checkType: "not-following-back" | "not-followed-back" = "not-following-back",
-): Promise<GetNonFollowersResult> {
-  if (!username) {
-    return { error: "Username cannot be empty." }
-  }
-
-  const userDetails = await getUserDetails(username, token)
-  if (!userDetails) {
-    return { error: `Could not find GitHub user: ${username}.`, isRateLimitError: false }
-  }
-
-  let followingData: any[] | { error: string; isRateLimitError?: boolean }
-  let followersData: any[] | { error: string; isRateLimitError?: boolean }
-
-  // Fetch both lists regardless of checkType, as both are needed for comparison
-  followingData = await fetchAllPages(`/users/${username}/following`, token)
-  followersData = await fetchAllPages(`/users/${username}/followers`, token)
-
-  if ("error" in followingData) {
-    return followingData // Propagate critical error
-  }
-  if ("error" in followersData) {
-    return followersData // Propagate critical error
-  }
-
-  const followingSet = new Set((followingData as any[]).map((user) => user.login.toLowerCase()))
-  const followersSet = new Set((followersData as any[]).map((user) => user.login.toLowerCase()))
+  options: RecommendationsOptions = {},
+): Promise<RecommendationsResult> {
+  return recommendAccounts(username, await resolveToken(token, options.host), options)
+}
 
-  let nonFollowersLogins: string[] = []
+// Follows one account back as the owner of `token`; the client-side queue spaces these calls out
+export async function followAccount(
+  login: string,
+  token?: string,
+  host?: string,
+  batchId?: string,
+  expectedActor?: string,
+): Promise<FollowActionResult> {
+  return followBack(login, await resolveToken(token, host), { host, batchId, expectedActor })
+}
 
-  if (checkType === "not-following-back") {
-    // Users I follow who don't follow me back
-    nonFollowersLogins = (followingData as any[])
-      .filter((user) => !followersSet.has(user.login.toLowerCase()))
-      .map((user) => user.login)
-  } else {
-    // Users who follow me but I don't follow back
-    nonFollowersLogins = (followersData as any[])
-      .filter((user) => !followingSet.has(user.login.toLowerCase()))
-      .map((user) => user.login)
-  }
+// The follow and unfollow batches recorded for the token's owner, for the journal page
+export async function getFollowJournal(token?: string, host?: string): Promise<JournalResult> {
+  return loadJournal(await resolveToken(token, host), host)
+}
 
-  const usersWithDetails: GitHubUser[] = []
-  let hasPartialDataError = false
+// Who a token belongs to and what it may do, so pages can check it before a scan or a write. Without a token,
+// the signed-in session's token is checked.
+export async function inspectGitHubToken(token?: string, host?: string): Promise<TokenInspectionResult> {
+  return inspectToken(await resolveToken(token, host), host)
+}
 
-  for (const login of nonFollowersLogins) {
-    const details = await getUserDetails(login, token)
-    if (details) {
-      usersWithDetails.push(details)
-    } else {
-      hasPartialDataError = true
-    }
-  }
+// Whether sign-in is available and who is signed in. The token itself never reaches the browser.
+export async function getSessionStatus(): Promise<SessionStatus> {
+  const session = await getSession()
+  return { oauthEnabled: !("error" in getOAuthApp()), login: session?.login, host: session?.host }
+}
 
-  return {
-    users: usersWithDetails,
-    hasPartialDataError: hasPartialDataError,
-    error: hasPartialDataError ? "Some user details could not be fetched due to GitHub API rate limit." : undefined,
-  }
+export async function signOut(): Promise<void> {
+  const cookieStore = await cookies()
+  cookieStore.delete(SESSION_COOKIE)
 }
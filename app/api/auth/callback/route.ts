@@ -0,0 +1,61 @@
+import { timingSafeEqual } from "node:crypto"
+import { NextResponse, type NextRequest } from "next/server"
+
+import { createSession, exchangeCode, getOAuthApp, OAUTH_STATE_COOKIE, safeReturnTo } from "@/lib/oauth"
+import { sealSession, SESSION_COOKIE, sessionCookieOptions } from "@/lib/session"
+
+function readStateCookie(value: string | undefined): { state: string; returnTo: string } | null {
+  try {
+    const parsed = value ? JSON.parse(value) : null
+    return typeof parsed?.state === "string" ? { state: parsed.state, returnTo: safeReturnTo(parsed.returnTo) } : null
+  } catch {
+    return null
+  }
+}
+
+// Where GitHub sends the browser back to. Checks the state against the cookie set by the login route, trades
+// the code for a token and stores it in the encrypted session cookie. Failures return to the app with a
+// signInError query parameter for the page to show.
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams
+  const expected = readStateCookie(request.cookies.get(OAUTH_STATE_COOKIE)?.value)
+
+  const finish = (error?: string) => {
+    const url = new URL(expected?.returnTo ?? "/", request.url)
+    if (error) {
+      url.searchParams.set("signInError", error)
+    }
+    const response = NextResponse.redirect(url)
+    response.cookies.delete(OAUTH_STATE_COOKIE)
+    return response
+  }
+
+  const app = getOAuthApp()
+  if ("error" in app) {
+    return finish(app.error)
+  }
+  if (params.get("error")) {
+    return finish(params.get("error_description") || "Sign-in was cancelled on GitHub.")
+  }
+
+  const state = Buffer.from(params.get("state") ?? "")
+  const expectedState = Buffer.from(expected?.state ?? "")
+  const code = params.get("code")
+  if (!expected || !code || state.length !== expectedState.length || !timingSafeEqual(state, expectedState)) {
+    return finish("The sign-in request expired or didn't come from this site. Please try again.")
+  }
+
+  const redirectUri = new URL("/api/auth/callback", request.url).toString()
+  const tokenResult = await exchangeCode(app, code, redirectUri)
+  if (!("token" in tokenResult)) {
+    return finish("error" in tokenResult ? tokenResult.error : "Sign-in failed.")
+  }
+  const session = await createSession(app, tokenResult.token, tokenResult.scopes)
+  if ("error" in session) {
+    return finish(session.error)
+  }
+
+  const response = finish()
+  response.cookies.set(SESSION_COOKIE, sealSession(session), sessionCookieOptions(request.url))
+  return response
+}
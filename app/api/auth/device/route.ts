@@ -0,0 +1,16 @@
+import { getOAuthApp, requestDeviceCode } from "@/lib/oauth"
+
+// Starts the OAuth device flow for headless clients. The response carries a code to enter at
+// verificationUri on any device; then poll /api/auth/device/token with the deviceCode until it signs in.
+export async function POST() {
+  const app = getOAuthApp()
+  if ("error" in app) {
+    return Response.json({ error: app.error }, { status: 503 })
+  }
+
+  const deviceCode = await requestDeviceCode(app)
+  if ("error" in deviceCode) {
+    return Response.json({ error: deviceCode.error }, { status: 502 })
+  }
+  return Response.json(deviceCode, { headers: { "Cache-Control": "no-store" } })
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+
+import { createSession, getOAuthApp, pollDeviceToken } from "@/lib/oauth"
+import { sealSession, SESSION_COOKIE, sessionCookieOptions } from "@/lib/session"
+
+// Polls the device flow once. Answers 202 while the code hasn't been entered yet, and 200 with the session
+// cookie once it has; keep sending that cookie (e.g. curl's cookie jar) to stay signed in.
+export async function POST(request: Request) {
+  let body: { deviceCode?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 })
+  }
+  if (typeof body.deviceCode !== "string" || !body.deviceCode) {
+    return Response.json({ error: "deviceCode is required." }, { status: 400 })
+  }
+
+  const app = getOAuthApp()
+  if ("error" in app) {
+    return Response.json({ error: app.error }, { status: 503 })
+  }
+
+  const tokenResult = await pollDeviceToken(app, body.deviceCode)
+  if ("pending" in tokenResult) {
+    return Response.json({ pending: true, interval: tokenResult.interval }, { status: 202 })
+  }
+  if ("error" in tokenResult) {
+    return Response.json({ error: tokenResult.error }, { status: 400 })
+  }
+  const session = await createSession(app, tokenResult.token, tokenResult.scopes)
+  if ("error" in session) {
+    return Response.json({ error: session.error }, { status: 502 })
+  }
+
+  const response = NextResponse.json({ login: session.login, host: session.host, scopes: session.scopes })
+  response.cookies.set(SESSION_COOKIE, sealSession(session), sessionCookieOptions(request.url))
+  return response
+}
@@ -0,0 +1,22 @@
+import { randomBytes } from "node:crypto"
+import { NextResponse } from "next/server"
+
+import { buildAuthorizeUrl, getOAuthApp, OAUTH_STATE_COOKIE, safeReturnTo } from "@/lib/oauth"
+import { sessionCookieOptions } from "@/lib/session"
+
+// Starts the OAuth web flow: remembers a random state (and where to return to) in a short-lived cookie, then
+// sends the browser to GitHub's consent page
+export async function GET(request: Request) {
+  const app = getOAuthApp()
+  if ("error" in app) {
+    return Response.json({ error: app.error }, { status: 503 })
+  }
+
+  const state = randomBytes(16).toString("base64url")
+  const returnTo = safeReturnTo(new URL(request.url).searchParams.get("returnTo"))
+  const redirectUri = new URL("/api/auth/callback", request.url).toString()
+
+  const response = NextResponse.redirect(buildAuthorizeUrl(app, state, redirectUri))
+  response.cookies.set(OAUTH_STATE_COOKIE, JSON.stringify({ state, returnTo }), sessionCookieOptions(request.url, 600))
+  return response
+}
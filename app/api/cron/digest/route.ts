@@ -0,0 +1,42 @@
+import { checkCronSecret } from "@/lib/cron-auth"
+import { buildWeeklyDigest, getDigestSubscriptions, sendWeeklyDigests } from "@/lib/digest"
+import { renderDigestHtml, renderDigestText } from "@/lib/digest/render"
+import { parseWatchlistEntry } from "@/lib/snapshots/watchlist"
+
+// Mails the weekly digest to every DIGEST_SUBSCRIPTIONS recipient; schedule it once a week next to the
+// snapshot cron. `?preview=<account>` renders that account's digest instead of sending anything
+// (`&format=text` for the plain-text version).
+async function handle(request: Request) {
+  const unauthorized = checkCronSecret(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  const params = new URL(request.url).searchParams
+  const preview = params.get("preview")
+  if (preview) {
+    const { username, host } = parseWatchlistEntry(preview)
+    const digest = await buildWeeklyDigest(username, host)
+    if ("error" in digest) {
+      return Response.json(digest, { status: 404 })
+    }
+    return params.get("format") === "text"
+      ? new Response(renderDigestText(digest), { headers: { "Content-Type": "text/plain; charset=utf-8" } })
+      : new Response(renderDigestHtml(digest), { headers: { "Content-Type": "text/html; charset=utf-8" } })
+  }
+
+  const subscriptions = getDigestSubscriptions()
+  if (subscriptions.length === 0) {
+    return Response.json({ error: "DIGEST_SUBSCRIPTIONS is empty." }, { status: 400 })
+  }
+
+  const results = await sendWeeklyDigests(subscriptions)
+  if ("error" in results) {
+    return Response.json(results, { status: 503 })
+  }
+  return Response.json({ results }, { headers: { "Cache-Control": "no-store" } })
+}
+
+// Vercel Cron sends GET requests; other schedulers may prefer POST
+export const GET = handle
+export const POST = handle
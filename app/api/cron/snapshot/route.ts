@@ -0,0 +1,23 @@
+import { checkCronSecret } from "@/lib/cron-auth"
+import { getWatchlist, snapshotWatchlist } from "@/lib/snapshots/watchlist"
+
+// Records snapshots of every SNAPSHOT_WATCHLIST account. Meant for external schedulers (Vercel Cron, GitHub
+// Actions, crontab + scripts/snapshot.mjs), which must send `Authorization: Bearer <CRON_SECRET>`.
+async function handle(request: Request) {
+  const unauthorized = checkCronSecret(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  const watchlist = getWatchlist()
+  if (watchlist.length === 0) {
+    return Response.json({ error: "SNAPSHOT_WATCHLIST is empty." }, { status: 400 })
+  }
+
+  const result = await snapshotWatchlist(watchlist)
+  return Response.json(result, { headers: { "Cache-Control": "no-store" } })
+}
+
+// Vercel Cron sends GET requests; other schedulers may prefer POST
+export const GET = handle
+export const POST = handle
@@ -0,0 +1,28 @@
+import { undoFollowBatch, type FollowBatchEvent } from "@/lib/follow-actions"
+import { ndjsonResponse } from "@/lib/ndjson"
+import { resolveToken } from "@/lib/session"
+
+// Streams the undo of a journal batch in the same shape as /api/unfollow. The token must belong to the
+// batch's actor, which undoFollowBatch checks before sending anything. Without one, the signed-in session's
+// token is used.
+export async function POST(request: Request) {
+  let body: { batchId?: unknown; token?: string }
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 })
+  }
+
+  if (typeof body.batchId !== "string" || !body.batchId) {
+    return Response.json({ error: "batchId is required." }, { status: 400 })
+  }
+  const batchId = body.batchId
+  const token = await resolveToken(body.token || undefined)
+
+  return ndjsonResponse<FollowBatchEvent>(async (send) => {
+    const result = await undoFollowBatch(batchId, token, {
+      onResult: (account) => send({ type: "account", result: account }),
+    })
+    send({ type: "result", result })
+  })
+}
@@ -0,0 +1,41 @@
+import { ndjsonResponse } from "@/lib/ndjson"
+import { CHECK_TYPES, scanRelationships, type CheckType, type ScanEvent } from "@/lib/scan"
+import { resolveToken } from "@/lib/session"
+
+// Streams a scan as newline-delimited JSON: progress events and enriched users as they arrive,
+// followed by a single "result" event carrying the same payload getNonFollowers returns. Scans without a
+// token use the signed-in session's token, if any.
+export async function POST(request: Request) {
+  let body: {
+    username?: string
+    token?: string
+    checkType?: CheckType
+    host?: string
+    forceRefresh?: boolean
+    ignoredLogins?: unknown
+  }
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 })
+  }
+
+  const checkType = body.checkType ?? "not-following-back"
+  if (!CHECK_TYPES.includes(checkType)) {
+    return Response.json({ error: `Unknown check type: ${checkType}.` }, { status: 400 })
+  }
+  const token = await resolveToken(body.token || undefined, body.host)
+
+  return ndjsonResponse<ScanEvent>(async (send) => {
+    const result = await scanRelationships(body.username ?? "", token, checkType, {
+      host: body.host,
+      forceRefresh: body.forceRefresh === true,
+      ignoredLogins: Array.isArray(body.ignoredLogins)
+        ? body.ignoredLogins.filter((login): login is string => typeof login === "string")
+        : undefined,
+      onProgress: (progress) => send({ type: "progress", progress }),
+      onUser: (bucket, user) => send({ type: "user", bucket, user }),
+    })
+    send({ type: "result", result })
+  })
+}
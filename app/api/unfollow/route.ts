@@ -0,0 +1,31 @@
+import { bulkUnfollow, type FollowBatchEvent } from "@/lib/follow-actions"
+import { ndjsonResponse } from "@/lib/ndjson"
+import { resolveToken } from "@/lib/session"
+
+// Streams a bulk unfollow as newline-delimited JSON: one "account" event as each account is handled,
+// followed by a single "result" event with the whole batch. Requests are throttled, so a batch of
+// 100 accounts takes well over a minute.
+export async function POST(request: Request) {
+  let body: { logins?: unknown; token?: string; host?: string; dryRun?: boolean; expectedActor?: unknown }
+  try {
+    body = await request.json()
+  } catch {
+    return Response.json({ error: "Request body must be JSON." }, { status: 400 })
+  }
+
+  if (!Array.isArray(body.logins) || !body.logins.every((login) => typeof login === "string")) {
+    return Response.json({ error: "logins must be an array of usernames." }, { status: 400 })
+  }
+  const logins: string[] = body.logins
+  const token = await resolveToken(body.token || undefined, body.host)
+
+  return ndjsonResponse<FollowBatchEvent>(async (send) => {
+    const result = await bulkUnfollow(logins, token, {
+      host: body.host,
+      dryRun: body.dryRun === true,
+      expectedActor: typeof body.expectedActor === "string" ? body.expectedActor : undefined,
+      onResult: (account) => send({ type: "account", result: account }),
+    })
+    send({ type: "result", result })
+  })
+}
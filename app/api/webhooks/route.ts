@@ -0,0 +1,48 @@
+import { checkCronSecret } from "@/lib/cron-auth"
+import { getWebhookTargets, notifyWebhooks, type FollowerChangeEvent } from "@/lib/webhooks"
+import { readDeliveryLog } from "@/lib/webhooks/log"
+
+const DEFAULT_LOG_LIMIT = 50
+const MAX_LOG_LIMIT = 500
+
+// Recent webhook deliveries, newest first; `?limit=` caps how many are returned
+export async function GET(request: Request) {
+  const unauthorized = checkCronSecret(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  const limit = Number(new URL(request.url).searchParams.get("limit"))
+  const deliveries = await readDeliveryLog(
+    Number.isInteger(limit) && limit > 0 ? Math.min(limit, MAX_LOG_LIMIT) : DEFAULT_LOG_LIMIT,
+  )
+  return Response.json({ deliveries }, { headers: { "Cache-Control": "no-store" } })
+}
+
+// Sends a sample event to every configured webhook and reports how each delivery went
+export async function POST(request: Request) {
+  const unauthorized = checkCronSecret(request)
+  if (unauthorized) {
+    return unauthorized
+  }
+
+  const targets = getWebhookTargets()
+  if (targets.length === 0) {
+    return Response.json({ error: "NOTIFY_WEBHOOKS is empty." }, { status: 400 })
+  }
+
+  const event: FollowerChangeEvent = {
+    event: "followers.changed",
+    host: "github.com",
+    webUrl: "https://github.com",
+    username: "octocat",
+    takenAt: Date.now(),
+    newFollowers: ["monalisa"],
+    unfollowers: ["hubot"],
+    followers: 42,
+    following: 7,
+    test: true,
+  }
+  const deliveries = await notifyWebhooks(event, targets)
+  return Response.json({ deliveries })
+}
@@ -0,0 +1,192 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { ArrowLeftRight, Loader2 } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { HostSelect } from "@/components/host-select"
+import { LoginList } from "@/components/login-list"
+import { TokenPrompt } from "@/components/token-prompt"
+import { useGitHubHosts } from "@/hooks/use-github-hosts"
+import type { CompareNetworksResult, NetworkOverlap } from "@/lib/compare"
+import type { GitHubUser } from "@/lib/github-schemas"
+import { compareUsers } from "../actions"
+
+function describeFollowStatus(first: GitHubUser, second: GitHubUser, result: CompareNetworksResult) {
+  if (result.firstFollowsSecond && result.secondFollowsFirst) {
+    return `${first.login} and ${second.login} follow each other.`
+  }
+  if (result.firstFollowsSecond) {
+    return `${first.login} follows ${second.login}, but not the other way around.`
+  }
+  if (result.secondFollowsFirst) {
+    return `${second.login} follows ${first.login}, but not the other way around.`
+  }
+  return `${first.login} and ${second.login} don't follow each other.`
+}
+
+function overlapSections(first: GitHubUser, second: GitHubUser): { key: keyof NetworkOverlap; label: string }[] {
+  return [
+    { key: "sharedFollowers", label: `Follow both ${first.login} and ${second.login}` },
+    { key: "sharedFollowing", label: `Followed by both ${first.login} and ${second.login}` },
+    { key: "followersOnlyFirst", label: `Follow ${first.login} but not ${second.login}` },
+    { key: "followersOnlySecond", label: `Follow ${second.login} but not ${first.login}` },
+  ]
+}
+
+function AccountSummary({ user }: { user: GitHubUser }) {
+  return (
+    <div className="flex flex-col items-center gap-2 text-center">
+      <Avatar className="h-16 w-16">
+        <AvatarImage src={user.avatar_url || "/placeholder.svg"} alt={`${user.login}'s avatar`} />
+        <AvatarFallback>{user.login.substring(0, 2).toUpperCase()}</AvatarFallback>
+      </Avatar>
+      <Link href={user.html_url} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">
+        {user.login}
+      </Link>
+      <p className="text-sm text-muted-foreground">
+        {user.followers} Followers · {user.following} Following
+      </p>
+    </div>
+  )
+}
+
+export default function ComparePage() {
+  const [firstUsername, setFirstUsername] = useState("")
+  const [secondUsername, setSecondUsername] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [result, setResult] = useState<CompareNetworksResult | null>(null)
+  const [showInlineTokenInput, setShowInlineTokenInput] = useState(false)
+  const [tempGithubToken, setTempGithubToken] = useState("")
+  const [forceRefresh, setForceRefresh] = useState(false)
+  const { hosts, selectedHost, setSelectedHost, webUrl } = useGitHubHosts()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setResult(null)
+    try {
+      const data = await compareUsers(firstUsername, secondUsername, tempGithubToken || undefined, {
+        host: selectedHost,
+        forceRefresh,
+      })
+      setResult(data)
+      setShowInlineTokenInput(!!data.isRateLimitError)
+      if (!data.isRateLimitError) {
+        setTempGithubToken("")
+      }
+    } catch (err) {
+      console.error("Client-side error:", err)
+      setResult({ error: "An unexpected error occurred. Please try again." })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const [first, second] = result?.accounts ?? []
+  const overlap = result?.overlap
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-950 p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold flex items-center justify-center gap-2">
+            <ArrowLeftRight className="w-6 h-6" /> Compare Networks
+          </CardTitle>
+          <p className="text-muted-foreground">
+            Find the followers and followings two GitHub users have in common.{" "}
+            <Link href="/" className="text-blue-500 hover:underline">
+              Back to the checker
+            </Link>
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+              <Input
+                type="text"
+                placeholder="First GitHub username"
+                value={firstUsername}
+                onChange={(e) => setFirstUsername(e.target.value)}
+                required
+              />
+              <Input
+                type="text"
+                placeholder="Second GitHub username"
+                value={secondUsername}
+                onChange={(e) => setSecondUsername(e.target.value)}
+                required
+              />
+            </div>
+
+            <HostSelect hosts={hosts} value={selectedHost} onValueChange={setSelectedHost} />
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="force-refresh"
+                checked={forceRefresh}
+                onCheckedChange={(checked) => setForceRefresh(checked === true)}
+              />
+              <Label htmlFor="force-refresh">Force refresh (ignore cached results)</Label>
+            </div>
+
+            {showInlineTokenInput && (
+              <TokenPrompt
+                token={tempGithubToken}
+                onTokenChange={setTempGithubToken}
+                webUrl={webUrl}
+                host={selectedHost}
+              />
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Comparing...
+                </>
+              ) : showInlineTokenInput ? (
+                "Use Token and Retry"
+              ) : (
+                "Compare"
+              )}
+            </Button>
+          </form>
+
+          {result?.error && (
+            <div className="mt-4 text-center text-red-500 p-3 bg-red-100 dark:bg-red-900 rounded-md">
+              {result.error}
+            </div>
+          )}
+
+          {first && second && overlap && (
+            <div className="mt-6 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <AccountSummary user={first} />
+                <AccountSummary user={second} />
+              </div>
+              <p className="text-center font-medium">{describeFollowStatus(first, second, result)}</p>
+
+              {overlapSections(first, second).map((section) => (
+                <div key={section.key} className="space-y-2">
+                  <h3 className="font-medium">
+                    {section.label} ({overlap[section.key].length})
+                  </h3>
+                  <LoginList logins={overlap[section.key]} webUrl={webUrl} />
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,133 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { History, Loader2 } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { FollowerTimelineChart } from "@/components/follower-timeline-chart"
+import { HostSelect } from "@/components/host-select"
+import { LoginList } from "@/components/login-list"
+import { useGitHubHosts } from "@/hooks/use-github-hosts"
+import type { FollowerChangesResult, FollowerTimelinePoint, SnapshotSummary } from "@/lib/history"
+import type { SnapshotDiff } from "@/lib/snapshots/diff"
+import { getFollowerChanges, getFollowerTimeline } from "../actions"
+
+const CHANGE_SECTIONS: { key: keyof SnapshotDiff; label: string }[] = [
+  { key: "unfollowers", label: "Unfollowed you" },
+  { key: "newFollowers", label: "New followers" },
+  { key: "startedFollowing", label: "You started following" },
+  { key: "stoppedFollowing", label: "You stopped following" },
+]
+
+function describeSnapshot(label: string, snapshot: SnapshotSummary) {
+  const takenAt = new Date(snapshot.takenAt).toLocaleString()
+  return `${label}: ${takenAt} (${snapshot.followers} followers, ${snapshot.following} following)`
+}
+
+export default function HistoryPage() {
+  const [username, setUsername] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [result, setResult] = useState<FollowerChangesResult | null>(null)
+  const [timeline, setTimeline] = useState<FollowerTimelinePoint[]>([])
+  const { hosts, selectedHost, setSelectedHost, webUrl } = useGitHubHosts()
+  const changes = result?.changes
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setResult(null)
+    setTimeline([])
+    try {
+      const [changesData, timelineData] = await Promise.all([
+        getFollowerChanges(username, selectedHost),
+        getFollowerTimeline(username, selectedHost),
+      ])
+      setResult(changesData)
+      setTimeline(timelineData.points ?? [])
+    } catch (err) {
+      console.error("Client-side error:", err)
+      setResult({ error: "An unexpected error occurred. Please try again." })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-950 p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold flex items-center justify-center gap-2">
+            <History className="w-6 h-6" /> Follower History
+          </CardTitle>
+          <p className="text-muted-foreground">
+            Track your follower counts over time and see who followed or unfollowed you since the last check.{" "}
+            <Link href="/" className="text-blue-500 hover:underline">
+              Back to the checker
+            </Link>
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              type="text"
+              placeholder="Enter GitHub username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              required
+              className="w-full"
+            />
+
+            <HostSelect hosts={hosts} value={selectedHost} onValueChange={setSelectedHost} />
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                "Show Changes"
+              )}
+            </Button>
+          </form>
+
+          {result?.error && (
+            <div className="mt-4 text-center text-red-500 p-3 bg-red-100 dark:bg-red-900 rounded-md">
+              {result.error}
+            </div>
+          )}
+
+          {result?.latest && (
+            <div className="mt-6 space-y-4">
+              <div className="text-sm text-center text-muted-foreground space-y-1">
+                <p>{describeSnapshot("Latest check", result.latest)}</p>
+                {result.previous ? (
+                  <p>{describeSnapshot("Previous check", result.previous)}</p>
+                ) : (
+                  <p>Only one check has been recorded so far. Run another check later to see changes.</p>
+                )}
+              </div>
+
+              {timeline.length > 1 && <FollowerTimelineChart points={timeline} />}
+
+              {changes &&
+                CHANGE_SECTIONS.map((section) => (
+                  <div key={section.key} className="space-y-2">
+                    <h3 className="font-medium">
+                      {section.label} ({changes[section.key].length})
+                    </h3>
+                    <LoginList logins={changes[section.key]} webUrl={result.webUrl ?? webUrl} />
+                  </div>
+                ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
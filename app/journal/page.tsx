@@ -0,0 +1,112 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { BookOpen, Loader2 } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { HostSelect } from "@/components/host-select"
+import { JournalBatchCard } from "@/components/journal-batch-card"
+import { useGitHubHosts } from "@/hooks/use-github-hosts"
+import { useSessionStatus } from "@/hooks/use-session-status"
+import type { JournalResult } from "@/lib/follow-actions"
+import { getFollowJournal } from "../actions"
+
+export default function JournalPage() {
+  const [token, setToken] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [result, setResult] = useState<JournalResult | null>(null)
+  const { hosts, selectedHost, setSelectedHost, webUrl } = useGitHubHosts()
+  const signedInAs = useSessionStatus().signedInOn(selectedHost)
+
+  const loadJournal = async () => {
+    setLoading(true)
+    try {
+      setResult(await getFollowJournal(token, selectedHost))
+    } catch (err) {
+      console.error("Client-side error:", err)
+      setResult({ error: "An unexpected error occurred. Please try again." })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setResult(null)
+    await loadJournal()
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-950 p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold flex items-center justify-center gap-2">
+            <BookOpen className="w-6 h-6" /> Action Journal
+          </CardTitle>
+          <p className="text-muted-foreground">
+            Every follow and unfollow sent from this app, grouped by batch. Undo a batch to replay it in reverse.{" "}
+            <Link href="/" className="text-blue-500 hover:underline">
+              Back to the checker
+            </Link>
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              type="password"
+              placeholder={signedInAs ? `Optional: signed in as ${signedInAs}` : "Token you used"}
+              value={token}
+              onChange={(e) => setToken(e.target.value)}
+              required={!signedInAs}
+            />
+            <p className="text-xs text-muted-foreground">
+              The journal only shows batches run by the token&apos;s owner. Undoing needs the user:follow scope.
+            </p>
+
+            <HostSelect hosts={hosts} value={selectedHost} onValueChange={setSelectedHost} />
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Loading...
+                </>
+              ) : (
+                "Show Journal"
+              )}
+            </Button>
+          </form>
+
+          {result?.error && (
+            <div className="mt-4 text-center text-red-500 p-3 bg-red-100 dark:bg-red-900 rounded-md">
+              {result.error}
+            </div>
+          )}
+
+          {result?.batches && (
+            <div className="mt-6 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {result.batches.length} {result.batches.length === 1 ? "batch" : "batches"} run by {result.actor}.
+              </p>
+              {result.batches.map((batch) => (
+                <JournalBatchCard
+                  key={batch.batchId}
+                  batch={batch}
+                  token={token}
+                  canUndo={!!token || !!signedInAs}
+                  webUrl={webUrl}
+                  onUndone={loadJournal}
+                />
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
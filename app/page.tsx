@@ -4,36 +4,96 @@ import type React from "react"
 
 import { useState, useEffect, useRef } from "react"
 import Link from "next/link"
-import { Loader2, Github, Users, GitPullRequest } from "lucide-react" // Removed FileText icon
+import { Loader2, Github, Users, GitPullRequest, EyeOff } from "lucide-react" // Removed FileText icon
 
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Label } from "@/components/ui/label"
-import { getNonFollowers } from "./actions"
-
-interface GitHubUser {
-  login: string
-  avatar_url: string
-  html_url: string
-  followers?: number
-  following?: number
-  public_repos?: number
-  // Removed public_gists
+import { Progress } from "@/components/ui/progress"
+import { Badge } from "@/components/ui/badge"
+import { ContextMenu, ContextMenuContent, ContextMenuItem, ContextMenuTrigger } from "@/components/ui/context-menu"
+import { BulkUnfollowBar } from "@/components/bulk-unfollow-bar"
+import { FollowBackBar } from "@/components/follow-back-bar"
+import { HostSelect } from "@/components/host-select"
+import { IgnoredAccounts } from "@/components/ignored-accounts"
+import { SignInStatus } from "@/components/sign-in-status"
+import { TokenCapabilities } from "@/components/token-capabilities"
+import { TokenPrompt } from "@/components/token-prompt"
+import { useFollowBackQueue } from "@/hooks/use-follow-back-queue"
+import { useGitHubHosts } from "@/hooks/use-github-hosts"
+import { readIgnoreList, useIgnoreList } from "@/hooks/use-ignore-list"
+import { useSessionStatus } from "@/hooks/use-session-status"
+import type { CacheMetrics } from "@/lib/cache"
+import type { RateLimitInfo } from "@/lib/rate-limit"
+import type { RetryStats } from "@/lib/retry"
+import type { GitHubUser } from "@/lib/github-schemas"
+import type { CheckType, RelationshipBreakdown, RelationshipCounts, ScanProgress } from "@/lib/scan"
+import { streamScan } from "@/lib/scan-stream"
+import type { TokenInspection } from "@/lib/token-inspection"
+
+const RELATIONSHIP_SECTIONS: { bucket: keyof RelationshipBreakdown; checkType: CheckType; label: string }[] = [
+  { bucket: "followingOnly", checkType: "not-following-back", label: "Not following back" },
+  { bucket: "followersOnly", checkType: "not-followed-back", label: "Not followed back" },
+  { bucket: "mutuals", checkType: "mutual", label: "Mutuals" },
+]
+
+// Describes a scan progress event as a label and a completion percentage for the progress bar
+function describeProgress(progress: ScanProgress): { label: string; percent: number } {
+  if (progress.phase === "enriching") {
+    return {
+      label: `Fetching user details: ${progress.completed} of ${progress.total}`,
+      percent: (progress.completed / Math.max(1, progress.total)) * 100,
+    }
+  }
+  const list = progress.phase === "following" ? "following" : "followers"
+  if (progress.totalPages === undefined) {
+    return { label: `Fetching ${list}: page ${progress.page}`, percent: 0 }
+  }
+  return {
+    label: `Fetching ${list}: page ${progress.page} of ${progress.totalPages}`,
+    percent: (progress.page / progress.totalPages) * 100,
+  }
+}
+
+// Formats a number of seconds as m:ss for the rate-limit reset countdown
+function formatCountdown(totalSeconds: number): string {
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`
 }
 
 export default function Home() {
   const [username, setUsername] = useState("")
-  const [results, setResults] = useState<GitHubUser[]>([])
+  const [results, setResults] = useState<RelationshipBreakdown | null>(null)
+  const [counts, setCounts] = useState<RelationshipCounts | null>(null)
+  const [skippedLogins, setSkippedLogins] = useState<string[]>([])
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [organization, setOrganization] = useState<string | null>(null) // Set when the searched account is an org
   const [searchedUsername, setSearchedUsername] = useState<string | null>(null)
   const [showInlineTokenInput, setShowInlineTokenInput] = useState(false)
   const [tempGithubToken, setTempGithubToken] = useState("")
-  const [checkType, setCheckType] = useState<"not-following-back" | "not-followed-back">("not-following-back")
+  const [checkType, setCheckType] = useState<CheckType>("not-following-back")
   const [searagedUsername, setSearagedUsername] = useState<string | null>(null) // Declared the variable
+  const [rateLimit, setRateLimit] = useState<RateLimitInfo | null>(null)
+  const [isRateLimited, setIsRateLimited] = useState(false)
+  const [secondsUntilReset, setSecondsUntilReset] = useState<number | null>(null)
+  const [retries, setRetries] = useState<RetryStats | null>(null)
+  const [progress, setProgress] = useState<ScanProgress | null>(null)
+  const { hosts, selectedHost, setSelectedHost, webUrl } = useGitHubHosts()
+  const [forceRefresh, setForceRefresh] = useState(false)
+  const [cacheMetrics, setCacheMetrics] = useState<CacheMetrics | null>(null)
+  const [tokenInspection, setTokenInspection] = useState<TokenInspection | null>(null) // Whose token the scan used
+  const [selectedLogins, setSelectedLogins] = useState<string[]>([]) // "Not following back" cards to unfollow
+  const [selectedFollowBacks, setSelectedFollowBacks] = useState<string[]>([]) // "Not followed back" cards to follow
+  const followBackQueue = useFollowBackQueue(searchedUsername, selectedHost)
+  const ignoreList = useIgnoreList(searchedUsername, selectedHost)
+  const session = useSessionStatus()
+  const [ignoredLogins, setIgnoredLogins] = useState<Record<keyof RelationshipBreakdown, string[]> | null>(null)
 
   // Ref to track if it's the initial mount to prevent immediate search on load
   const isInitialMount = useRef(true)
@@ -42,15 +102,49 @@ export default function Home() {
     // Made event optional
     e?.preventDefault() // Only prevent default if event exists
     setError(null)
-    setResults([])
+    setOrganization(null)
+    setResults({ mutuals: [], followingOnly: [], followersOnly: [] }) // Filled incrementally as users stream in
+    setProgress(null)
+    setCounts(null)
+    setSkippedLogins([])
+    setIsRateLimited(false)
+    setRetries(null)
+    setCacheMetrics(null)
+    setTokenInspection(null)
+    setSelectedLogins([])
+    setSelectedFollowBacks([])
+    setIgnoredLogins(null)
     setLoading(true)
     setSearchedUsername(username)
     setSearagedUsername(username) // Set the variable
 
     try {
-      const data = await getNonFollowers(username, tempGithubToken, checkType)
-      if (data.error) {
+      const request = {
+        username,
+        token: tempGithubToken,
+        checkType,
+        host: selectedHost,
+        forceRefresh,
+        ignoredLogins: readIgnoreList(username, selectedHost),
+      }
+      const data = await streamScan(request, (event) => {
+        if (event.type === "progress") {
+          setProgress(event.progress)
+        } else if (event.type === "user") {
+          setResults((current) =>
+            current ? { ...current, [event.bucket]: [...current[event.bucket], event.user] } : current,
+          )
+        }
+      })
+      setRateLimit(data.rateLimit || null)
+      setIsRateLimited(!!data.isRateLimitError)
+      setRetries(data.retryCount ? data.retries || null : null)
+      setCacheMetrics(data.cache || null)
+      setTokenInspection(data.tokenInspection || null)
+      if (data.error && !data.hasPartialDataError) {
         setError(data.error)
+        setResults(null)
+        setOrganization(data.isOrganization ? username : null)
         if (data.isRateLimitError) {
           setShowInlineTokenInput(true) // Show token input for critical rate limit errors
         } else {
@@ -58,7 +152,10 @@ export default function Home() {
           setTempGithubToken("")
         }
       } else {
-        setResults(data.users || [])
+        setResults(data.relationships || null)
+        setCounts(data.counts || null)
+        setSkippedLogins(data.skippedLogins || [])
+        setIgnoredLogins(data.ignoredLogins || null)
         setShowInlineTokenInput(false) // Hide token input on success
         setTempGithubToken("")
         if (data.hasPartialDataError) {
@@ -71,6 +168,7 @@ export default function Home() {
       setShowInlineTokenInput(false)
     } finally {
       setLoading(false)
+      setProgress(null)
     }
   }
 
@@ -84,11 +182,28 @@ export default function Home() {
     }
   }, [checkType]) // Dependency array includes checkType
 
+  // Live countdown to the rate-limit reset while a critical rate limit error is shown
+  useEffect(() => {
+    const reset = rateLimit?.reset
+    if (!isRateLimited || reset === undefined) {
+      setSecondsUntilReset(null)
+      return
+    }
+    const tick = () => setSecondsUntilReset(Math.max(0, reset - Math.floor(Date.now() / 1000)))
+    tick()
+    const interval = setInterval(tick, 1000)
+    return () => clearInterval(interval)
+  }, [isRateLimited, rateLimit])
+
   const getResultTitle = () => {
     if (checkType === "not-following-back") {
       return `Users ${searchedUsername} follows who don't follow back:`
-    } else {
+    } else if (checkType === "not-followed-back") {
       return `Users who follow ${searchedUsername} but ${searagedUsername} doesn't follow back:`
+    } else if (checkType === "mutual") {
+      return `Users who follow each other with ${searchedUsername}:`
+    } else {
+      return `Full relationship breakdown for ${searchedUsername}:`
     }
   }
 
@@ -96,14 +211,89 @@ export default function Home() {
     if (searchedUsername === username) {
       if (checkType === "not-following-back") {
         return `No users found that ${username} follows but don't follow back.`
-      } else {
+      } else if (checkType === "not-followed-back") {
         return `No users found who follow ${username} but ${username} doesn't follow back.`
+      } else if (checkType === "mutual") {
+        return `No mutual followers found for ${username}.`
+      } else {
+        return `${username} doesn't follow anyone and has no followers.`
       }
     } else {
       return "Enter a username to start searching."
     }
   }
 
+  // Accounts already followed back or waiting in the queue can't be picked again
+  const canFollowBack = (login: string) =>
+    !followBackQueue.followed.has(login) && !followBackQueue.pending.includes(login)
+
+  // Cards can be picked for unfollowing in "Not following back" and for following back in "Not followed back"
+  const isSelectable = (bucket: keyof RelationshipBreakdown, login: string) =>
+    bucket === "followingOnly" || (bucket === "followersOnly" && canFollowBack(login))
+
+  const selectionFor = (bucket: keyof RelationshipBreakdown) =>
+    bucket === "followingOnly" ? selectedLogins : selectedFollowBacks
+
+  const toggleSelected = (bucket: keyof RelationshipBreakdown, login: string, selected: boolean) => {
+    const setSelection = bucket === "followingOnly" ? setSelectedLogins : setSelectedFollowBacks
+    setSelection((current) =>
+      selected ? [...current, login] : current.filter((selectedLogin) => selectedLogin !== login),
+    )
+  }
+
+  // Drops unfollowed accounts from the grid and the counts, as a rescan would
+  const handleUnfollowed = (logins: string[]) => {
+    const unfollowed = new Set(logins)
+    setResults((current) =>
+      current
+        ? { ...current, followingOnly: current.followingOnly.filter((user) => !unfollowed.has(user.login)) }
+        : current,
+    )
+    setCounts((current) =>
+      current ? { ...current, followingOnly: Math.max(0, current.followingOnly - unfollowed.size) } : current,
+    )
+    setSelectedLogins((current) => current.filter((login) => !unfollowed.has(login)))
+  }
+
+  // Hides an account now and on every later check of this username; counts keep including it
+  const handleIgnore = (bucket: keyof RelationshipBreakdown, user: GitHubUser) => {
+    ignoreList.ignore(user.login)
+    setResults((current) =>
+      current ? { ...current, [bucket]: current[bucket].filter((result) => result.login !== user.login) } : current,
+    )
+    setIgnoredLogins((current) => ({
+      mutuals: [],
+      followingOnly: [],
+      followersOnly: [],
+      ...current,
+      [bucket]: [...(current?.[bucket] ?? []), user.login],
+    }))
+    setSelectedLogins((current) => current.filter((login) => login !== user.login))
+    setSelectedFollowBacks((current) => current.filter((login) => login !== user.login))
+  }
+
+  const handleUnignore = (login: string) => {
+    ignoreList.unignore(login)
+    setIgnoredLogins((current) =>
+      current
+        ? {
+            mutuals: current.mutuals.filter((ignored) => ignored !== login),
+            followingOnly: current.followingOnly.filter((ignored) => ignored !== login),
+            followersOnly: current.followersOnly.filter((ignored) => ignored !== login),
+          }
+        : current,
+    )
+  }
+
+  // Sections to render for the current check type, in display order
+  const visibleSections = RELATIONSHIP_SECTIONS.filter(
+    (section) => checkType === "all" || section.checkType === checkType,
+  )
+  const resultCount = results ? visibleSections.reduce((total, section) => total + results[section.bucket].length, 0) : 0
+  const ignoredCount = ignoredLogins
+    ? visibleSections.reduce((total, section) => total + ignoredLogins[section.bucket].length, 0)
+    : 0
+
   return (
     <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-950 p-4">
       <Card className="w-full max-w-md">
@@ -112,8 +302,24 @@ export default function Home() {
             <Github className="w-6 h-6" /> GitHub Follower Checker
           </CardTitle>
           <p className="text-muted-foreground">
-            Find out who you follow on GitHub that doesn't follow you back, or vice versa.
+            Find out who you follow on GitHub that doesn't follow you back, or vice versa.{" "}
+            <Link href="/history" className="text-blue-500 hover:underline">
+              See who unfollowed you
+            </Link> ·{" "}
+            <Link href="/compare" className="text-blue-500 hover:underline">
+              Compare two users
+            </Link> ·{" "}
+            <Link href="/team" className="text-blue-500 hover:underline">
+              Team network
+            </Link> ·{" "}
+            <Link href="/recommendations" className="text-blue-500 hover:underline">
+              Who to follow
+            </Link> ·{" "}
+            <Link href="/journal" className="text-blue-500 hover:underline">
+              Journal
+            </Link>
           </p>
+          <SignInStatus session={session} />
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-4">
@@ -126,9 +332,11 @@ export default function Home() {
               className="w-full"
             />
 
+            <HostSelect hosts={hosts} value={selectedHost} onValueChange={setSelectedHost} />
+
             <RadioGroup
               value={checkType}
-              onValueChange={(value: "not-following-back" | "not-followed-back") => setCheckType(value)}
+              onValueChange={(value: CheckType) => setCheckType(value)}
               className="flex flex-col space-y-1"
             >
               <div className="flex items-center space-x-2">
@@ -139,32 +347,32 @@ export default function Home() {
                 <RadioGroupItem value="not-followed-back" id="option-2" />
                 <Label htmlFor="option-2">Users who follow me but I don't follow back</Label>
               </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="mutual" id="option-3" />
+                <Label htmlFor="option-3">Users who follow each other with me</Label>
+              </div>
+              <div className="flex items-center space-x-2">
+                <RadioGroupItem value="all" id="option-4" />
+                <Label htmlFor="option-4">Full relationship breakdown</Label>
+              </div>
             </RadioGroup>
 
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="force-refresh"
+                checked={forceRefresh}
+                onCheckedChange={(checked) => setForceRefresh(checked === true)}
+              />
+              <Label htmlFor="force-refresh">Force refresh (ignore cached results)</Label>
+            </div>
+
             {showInlineTokenInput && (
-              <div className="space-y-2">
-                <p className="text-sm text-muted-foreground">
-                  You've hit the unauthenticated GitHub API rate limit. Please provide a GitHub Personal Access Token
-                  (PAT) to continue. Generate one at{" "}
-                  <Link
-                    href="https://github.com/settings/tokens"
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    className="text-blue-500 hover:underline"
-                  >
-                    GitHub Settings &gt; Developer settings &gt; Personal access tokens
-                  </Link>
-                  . Ensure it has at least the `public_repo` scope.
-                </p>
-                <Input
-                  type="password"
-                  placeholder="Enter your GitHub PAT"
-                  value={tempGithubToken}
-                  onChange={(e) => setTempGithubToken(e.target.value)}
-                  required
-                  className="w-full"
-                />
-              </div>
+              <TokenPrompt
+                token={tempGithubToken}
+                onTokenChange={setTempGithubToken}
+                webUrl={webUrl}
+                host={selectedHost}
+              />
             )}
             <Button type="submit" className="w-full" disabled={loading}>
               {loading ? (
@@ -180,59 +388,212 @@ export default function Home() {
             </Button>
           </form>
 
+          {loading && progress && (
+            <div className="mt-4 space-y-1">
+              <p className="text-sm text-center text-muted-foreground">{describeProgress(progress).label}</p>
+              <Progress value={describeProgress(progress).percent} className="h-2" />
+            </div>
+          )}
+
           {error && (
             <div className="mt-4 text-center text-red-500 p-3 bg-red-100 dark:bg-red-900 rounded-md">{error}</div>
           )}
 
-          {!loading && searchedUsername && results.length === 0 && !error && !showInlineTokenInput && (
-            <div className="mt-6 text-center text-muted-foreground">
-              <p>{getNoResultsMessage()}</p>
+          {organization && (
+            <p className="mt-2 text-center text-sm">
+              <Link href={`/team?org=${encodeURIComponent(organization)}`} className="text-blue-500 hover:underline">
+                Audit how {organization}&apos;s members follow each other
+              </Link>
+            </p>
+          )}
+
+          {isRateLimited && secondsUntilReset !== null && (
+            <p className="mt-2 text-center text-sm text-muted-foreground">
+              {secondsUntilReset > 0
+                ? `Rate limit resets in ${formatCountdown(secondsUntilReset)}.`
+                : "Rate limit has reset. You can retry now."}
+            </p>
+          )}
+
+          {rateLimit?.remaining !== undefined && rateLimit.limit !== undefined && (
+            <div className="mt-4 space-y-1">
+              <div className="flex justify-between text-xs text-muted-foreground">
+                <span>GitHub API budget</span>
+                <span>
+                  {rateLimit.remaining} / {rateLimit.limit} requests remaining
+                </span>
+              </div>
+              <Progress value={(rateLimit.remaining / rateLimit.limit) * 100} className="h-2" />
+            </div>
+          )}
+
+          {tokenInspection && (
+            <div className="mt-4">
+              <TokenCapabilities
+                result={{ inspection: tokenInspection }}
+                checking={false}
+                actions={["scan", "follow"]}
+              />
             </div>
           )}
 
-          {results.length > 0 && (
+          {retries && (
+            <p className="mt-2 text-center text-xs text-muted-foreground">
+              GitHub was slow to respond, so some requests were retried: {retries.secondaryRateLimit} after secondary
+              rate limits, {retries.serverError} after server errors, {retries.network} after network errors.
+            </p>
+          )}
+
+          {cacheMetrics && cacheMetrics.hits > 0 && (
+            <p className="mt-2 text-center text-xs text-muted-foreground">
+              {cacheMetrics.hits} of {cacheMetrics.hits + cacheMetrics.misses} lookups were served from cache.
+            </p>
+          )}
+
+          {skippedLogins.length > 0 && (
+            <p className="mt-2 text-center text-sm text-muted-foreground">
+              Skipped: {skippedLogins.join(", ")}
+            </p>
+          )}
+
+          {!loading &&
+            searchedUsername &&
+            resultCount === 0 &&
+            ignoredCount === 0 &&
+            !error &&
+            !showInlineTokenInput && (
+              <div className="mt-6 text-center text-muted-foreground">
+                <p>{getNoResultsMessage()}</p>
+              </div>
+            )}
+
+          {results && (resultCount > 0 || ignoredCount > 0) && (
             <div className="mt-6 space-y-4">
               <h2 className="text-lg font-semibold text-center">{getResultTitle()}</h2>
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                {results.map((user) => (
-                  <Card key={user.login} className="flex flex-col items-center p-3 gap-3 text-center">
-                    <Avatar className="h-16 w-16">
-                      <AvatarImage src={user.avatar_url || "/placeholder.svg"} alt={`${user.login}'s avatar`} />
-                      <AvatarFallback>{user.login.substring(0, 2).toUpperCase()}</AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1">
-                      <Link
-                        href={user.html_url}
-                        target="_blank"
-                        rel="noopener noreferrer"
-                        className="font-medium hover:underline text-lg"
-                      >
-                        {user.login}
-                      </Link>
-                      <div className="mt-2 text-sm text-muted-foreground flex flex-wrap justify-center gap-x-4 gap-y-2">
-                        {user.followers !== undefined && (
-                          <div className="flex items-center gap-1">
-                            <Users className="w-4 h-4" />
-                            <span>{user.followers} Followers</span>
-                          </div>
-                        )}
-                        {user.following !== undefined && (
-                          <div className="flex items-center gap-1">
-                            <Users className="w-4 h-4" />
-                            <span>{user.following} Following</span>
-                          </div>
-                        )}
-                        {user.public_repos !== undefined && (
-                          <div className="flex items-center gap-1">
-                            <GitPullRequest className="w-4 h-4" />
-                            <span>{user.public_repos} Repos</span>
-                          </div>
-                        )}
-                      </div>
-                    </div>
-                  </Card>
-                ))}
-              </div>
+              <p className="text-center text-xs text-muted-foreground">
+                Right-click a card to hide it from every check of {searchedUsername}.
+              </p>
+              {counts && checkType === "all" && (
+                <div className="flex justify-center gap-4 text-sm text-muted-foreground">
+                  {RELATIONSHIP_SECTIONS.map((section) => (
+                    <span key={section.bucket}>
+                      {section.label}: {counts[section.bucket]}
+                    </span>
+                  ))}
+                </div>
+              )}
+              {visibleSections.map((section) => (
+                <div key={section.bucket} className="space-y-2">
+                  {checkType === "all" && (
+                    <h3 className="font-medium">
+                      {section.label} ({results[section.bucket].length})
+                    </h3>
+                  )}
+                  {section.bucket === "followingOnly" && !loading && results.followingOnly.length > 0 && (
+                    <BulkUnfollowBar
+                      username={searchedUsername ?? ""}
+                      selected={selectedLogins}
+                      total={results.followingOnly.length}
+                      host={selectedHost}
+                      signedInAs={session.signedInOn(selectedHost)}
+                      onSelectAll={() => setSelectedLogins(results.followingOnly.map((user) => user.login))}
+                      onClearSelection={() => setSelectedLogins([])}
+                      onUnfollowed={handleUnfollowed}
+                    />
+                  )}
+                  {section.bucket === "followersOnly" && !loading && results.followersOnly.length > 0 && (
+                    <FollowBackBar
+                      username={searchedUsername ?? ""}
+                      selected={selectedFollowBacks}
+                      total={results.followersOnly.length}
+                      queue={followBackQueue}
+                      host={selectedHost}
+                      signedInAs={session.signedInOn(selectedHost)}
+                      onSelectAll={() =>
+                        setSelectedFollowBacks(
+                          results.followersOnly.map((user) => user.login).filter((login) => canFollowBack(login)),
+                        )
+                      }
+                      onClearSelection={() => setSelectedFollowBacks([])}
+                    />
+                  )}
+                  {ignoredLogins && ignoredLogins[section.bucket].length > 0 && (
+                    <IgnoredAccounts
+                      logins={ignoredLogins[section.bucket]}
+                      webUrl={webUrl}
+                      onUnignore={handleUnignore}
+                    />
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                    {results[section.bucket].map((user) => (
+                      <ContextMenu key={user.login}>
+                        <ContextMenuTrigger asChild>
+                          <Card className="relative flex flex-col items-center p-3 gap-3 text-center">
+                            {!loading && isSelectable(section.bucket, user.login) && (
+                              <Checkbox
+                                className="absolute top-3 left-3"
+                                checked={selectionFor(section.bucket).includes(user.login)}
+                                onCheckedChange={(checked) =>
+                                  toggleSelected(section.bucket, user.login, checked === true)
+                                }
+                                aria-label={`Select ${user.login}`}
+                              />
+                            )}
+                            {section.bucket === "followersOnly" && followBackQueue.followed.has(user.login) && (
+                              <Badge className="absolute top-3 right-3">Now following</Badge>
+                            )}
+                            {section.bucket === "followersOnly" && followBackQueue.pending.includes(user.login) && (
+                              <Badge variant="secondary" className="absolute top-3 right-3">
+                                Queued
+                              </Badge>
+                            )}
+                            <Avatar className="h-16 w-16">
+                              <AvatarImage src={user.avatar_url || "/placeholder.svg"} alt={`${user.login}'s avatar`} />
+                              <AvatarFallback>{user.login.substring(0, 2).toUpperCase()}</AvatarFallback>
+                            </Avatar>
+                            <div className="flex-1">
+                              <Link
+                                href={user.html_url}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-medium hover:underline text-lg"
+                              >
+                                {user.login}
+                              </Link>
+                              <div className="mt-2 text-sm text-muted-foreground flex flex-wrap justify-center gap-x-4 gap-y-2">
+                                {user.followers !== undefined && (
+                                  <div className="flex items-center gap-1">
+                                    <Users className="w-4 h-4" />
+                                    <span>{user.followers} Followers</span>
+                                  </div>
+                                )}
+                                {user.following !== undefined && (
+                                  <div className="flex items-center gap-1">
+                                    <Users className="w-4 h-4" />
+                                    <span>{user.following} Following</span>
+                                  </div>
+                                )}
+                                {user.public_repos !== undefined && (
+                                  <div className="flex items-center gap-1">
+                                    <GitPullRequest className="w-4 h-4" />
+                                    <span>{user.public_repos} Repos</span>
+                                  </div>
+                                )}
+                              </div>
+                            </div>
+                          </Card>
+                        </ContextMenuTrigger>
+                        <ContextMenuContent>
+                          <ContextMenuItem onSelect={() => handleIgnore(section.bucket, user)}>
+                            <EyeOff />
+                            Hide {user.login}
+                          </ContextMenuItem>
+                        </ContextMenuContent>
+                      </ContextMenu>
+                    ))}
+                  </div>
+                </div>
+              ))}
             </div>
           )}
         </CardContent>
@@ -0,0 +1,154 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Loader2, UserPlus } from "lucide-react"
+
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { HostSelect } from "@/components/host-select"
+import { RecommendationList } from "@/components/recommendation-list"
+import { TokenPrompt } from "@/components/token-prompt"
+import { useGitHubHosts } from "@/hooks/use-github-hosts"
+import type { RecommendationsResult } from "@/lib/recommendations"
+import { getFollowRecommendations } from "../actions"
+
+// Each expanded following costs at least one request, so large values need a token
+const NEIGHBOR_LIMITS = ["10", "25", "50", "100"]
+
+export default function RecommendationsPage() {
+  const [username, setUsername] = useState("")
+  const [maxNeighbors, setMaxNeighbors] = useState("25")
+  const [loading, setLoading] = useState(false)
+  const [result, setResult] = useState<RecommendationsResult | null>(null)
+  const [showInlineTokenInput, setShowInlineTokenInput] = useState(false)
+  const [tempGithubToken, setTempGithubToken] = useState("")
+  const [forceRefresh, setForceRefresh] = useState(false)
+  const { hosts, selectedHost, setSelectedHost, webUrl } = useGitHubHosts()
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setResult(null)
+    try {
+      const data = await getFollowRecommendations(username, tempGithubToken || undefined, {
+        host: selectedHost,
+        forceRefresh,
+        maxNeighbors: Number(maxNeighbors),
+      })
+      setResult(data)
+      setShowInlineTokenInput(!!data.isRateLimitError)
+      if (!data.isRateLimitError) {
+        setTempGithubToken("")
+      }
+    } catch (err) {
+      console.error("Client-side error:", err)
+      setResult({ error: "An unexpected error occurred. Please try again." })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const recommendations = result?.recommendations
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-950 p-4">
+      <Card className="w-full max-w-2xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold flex items-center justify-center gap-2">
+            <UserPlus className="w-6 h-6" /> People You May Want to Follow
+          </CardTitle>
+          <p className="text-muted-foreground">
+            Accounts that many of the people you follow also follow.{" "}
+            <Link href="/" className="text-blue-500 hover:underline">
+              Back to the checker
+            </Link>
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Input
+              type="text"
+              placeholder="Enter GitHub username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              required
+            />
+
+            <HostSelect hosts={hosts} value={selectedHost} onValueChange={setSelectedHost} />
+
+            <div className="space-y-2">
+              <Label htmlFor="max-neighbors">Look at the following lists of up to</Label>
+              <Select value={maxNeighbors} onValueChange={setMaxNeighbors}>
+                <SelectTrigger id="max-neighbors" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {NEIGHBOR_LIMITS.map((limit) => (
+                    <SelectItem key={limit} value={limit}>
+                      {limit} people you follow
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="force-refresh"
+                checked={forceRefresh}
+                onCheckedChange={(checked) => setForceRefresh(checked === true)}
+              />
+              <Label htmlFor="force-refresh">Force refresh (ignore cached results)</Label>
+            </div>
+
+            {showInlineTokenInput && (
+              <TokenPrompt
+                token={tempGithubToken}
+                onTokenChange={setTempGithubToken}
+                webUrl={webUrl}
+                host={selectedHost}
+              />
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Finding accounts...
+                </>
+              ) : showInlineTokenInput ? (
+                "Use Token and Retry"
+              ) : (
+                "Find Recommendations"
+              )}
+            </Button>
+          </form>
+
+          {result?.error && (
+            <div className="mt-4 text-center text-red-500 p-3 bg-red-100 dark:bg-red-900 rounded-md">
+              {result.error}
+            </div>
+          )}
+
+          {recommendations && (
+            <div className="mt-6 space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Based on {result.expandedCount} of the {result.followingCount} accounts {result.user?.login} follows.
+                {!!result.skippedCount &&
+                  ` ${result.skippedCount} more couldn't be read, usually because the GitHub API rate limit ran low.`}
+              </p>
+              <RecommendationList recommendations={recommendations} webUrl={webUrl} />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,195 @@
+"use client"
+
+import type React from "react"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Loader2, UsersRound } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Textarea } from "@/components/ui/textarea"
+import { HostSelect } from "@/components/host-select"
+import { LoginList } from "@/components/login-list"
+import { TeamHeatmap } from "@/components/team-heatmap"
+import { TeamTable } from "@/components/team-table"
+import { TokenPrompt } from "@/components/token-prompt"
+import { useGitHubHosts } from "@/hooks/use-github-hosts"
+import type { TeamAnalysisResult } from "@/lib/team"
+import { MAX_TEAM_SIZE, parseTeamInput } from "@/lib/team-input"
+import { analyzeOrganizationNetwork, analyzeTeamNetwork } from "../actions"
+
+type TeamMode = "usernames" | "organization"
+
+export default function TeamPage() {
+  const [mode, setMode] = useState<TeamMode>("usernames")
+  const [teamInput, setTeamInput] = useState("")
+  const [organization, setOrganization] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [result, setResult] = useState<TeamAnalysisResult | null>(null)
+  const [showInlineTokenInput, setShowInlineTokenInput] = useState(false)
+  const [tempGithubToken, setTempGithubToken] = useState("")
+  const [forceRefresh, setForceRefresh] = useState(false)
+  const { hosts, selectedHost, setSelectedHost, webUrl } = useGitHubHosts()
+
+  const memberCount = parseTeamInput(teamInput).length
+
+  // The checker links here with ?org= when the searched account turns out to be an organization
+  useEffect(() => {
+    const org = new URLSearchParams(window.location.search).get("org")
+    if (org) {
+      setMode("organization")
+      setOrganization(org)
+    }
+  }, [])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setLoading(true)
+    setResult(null)
+    try {
+      const token = tempGithubToken || undefined
+      const options = { host: selectedHost, forceRefresh }
+      const data =
+        mode === "organization"
+          ? await analyzeOrganizationNetwork(organization, token, options)
+          : await analyzeTeamNetwork(parseTeamInput(teamInput), token, options)
+      setResult(data)
+      setShowInlineTokenInput(!!data.isRateLimitError)
+      if (!data.isRateLimitError) {
+        setTempGithubToken("")
+      }
+    } catch (err) {
+      console.error("Client-side error:", err)
+      setResult({ error: "An unexpected error occurred. Please try again." })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-950 p-4">
+      <Card className="w-full max-w-4xl">
+        <CardHeader className="text-center">
+          <CardTitle className="text-2xl font-bold flex items-center justify-center gap-2">
+            <UsersRound className="w-6 h-6" /> Team Network
+          </CardTitle>
+          <p className="text-muted-foreground">
+            See who follows whom within a team, and who nobody on the team follows yet.{" "}
+            <Link href="/" className="text-blue-500 hover:underline">
+              Back to the checker
+            </Link>
+          </p>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <Tabs value={mode} onValueChange={(value) => setMode(value as TeamMode)}>
+              <TabsList className="grid w-full grid-cols-2">
+                <TabsTrigger value="usernames">Usernames</TabsTrigger>
+                <TabsTrigger value="organization">Organization</TabsTrigger>
+              </TabsList>
+              <TabsContent value="usernames" className="space-y-2">
+                <Textarea
+                  placeholder="GitHub usernames, separated by commas, spaces or new lines"
+                  value={teamInput}
+                  onChange={(e) => setTeamInput(e.target.value)}
+                  required={mode === "usernames"}
+                  rows={4}
+                />
+                <p className="text-xs text-muted-foreground">
+                  {memberCount} of up to {MAX_TEAM_SIZE} members
+                </p>
+              </TabsContent>
+              <TabsContent value="organization" className="space-y-2">
+                <Input
+                  type="text"
+                  placeholder="GitHub organization, e.g. vercel"
+                  value={organization}
+                  onChange={(e) => setOrganization(e.target.value)}
+                  required={mode === "organization"}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Audits the first {MAX_TEAM_SIZE} public members. Private members are only listed with a token from
+                  a member of the organization.
+                </p>
+              </TabsContent>
+            </Tabs>
+
+            <HostSelect hosts={hosts} value={selectedHost} onValueChange={setSelectedHost} />
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="force-refresh"
+                checked={forceRefresh}
+                onCheckedChange={(checked) => setForceRefresh(checked === true)}
+              />
+              <Label htmlFor="force-refresh">Force refresh (ignore cached results)</Label>
+            </div>
+
+            {showInlineTokenInput && (
+              <TokenPrompt
+                token={tempGithubToken}
+                onTokenChange={setTempGithubToken}
+                webUrl={webUrl}
+                host={selectedHost}
+                actions={["scan", "read-org"]}
+              />
+            )}
+
+            <Button type="submit" className="w-full" disabled={loading || (mode === "usernames" && memberCount < 2)}>
+              {loading ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Analyzing...
+                </>
+              ) : showInlineTokenInput ? (
+                "Use Token and Retry"
+              ) : (
+                mode === "organization" ? "Audit Organization" : "Analyze Team"
+              )}
+            </Button>
+          </form>
+
+          {result?.error && (
+            <div className="mt-4 text-center text-red-500 p-3 bg-red-100 dark:bg-red-900 rounded-md">
+              {result.error}
+            </div>
+          )}
+
+          {result?.members && result.matrix && result.stats && (
+            <div className="mt-6 space-y-6">
+              {result.organization && (
+                <p className="text-sm text-muted-foreground">
+                  {result.members.length} of {result.organizationMemberCount} {result.organization.login} members
+                  analyzed.
+                </p>
+              )}
+              <div className="space-y-2">
+                <h3 className="font-medium">Follow matrix</h3>
+                <TeamHeatmap members={result.members} matrix={result.matrix} />
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-medium">Members</h3>
+                <TeamTable stats={result.stats} />
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-medium">Nobody on the team follows ({result.unfollowedMembers?.length ?? 0})</h3>
+                <LoginList
+                  logins={result.unfollowedMembers ?? []}
+                  webUrl={webUrl}
+                  emptyMessage="Everyone is followed by someone."
+                />
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
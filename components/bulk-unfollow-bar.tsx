@@ -0,0 +1,207 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Loader2 } from "lucide-react"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { FollowActionReport } from "@/components/follow-action-report"
+import { isTokenBlocked, TokenCapabilities } from "@/components/token-capabilities"
+import { useTokenInspection } from "@/hooks/use-token-inspection"
+import type { FollowActionResult } from "@/lib/follow-actions"
+import { streamBulkUnfollow } from "@/lib/follow-actions-stream"
+
+interface BulkUnfollowBarProps {
+  username: string // The scanned account; the token has to belong to it
+  selected: string[]
+  total: number
+  host?: string
+  signedInAs?: string // Login of the GitHub session on `host`, whose token is used when none is typed in
+  onSelectAll: () => void
+  onClearSelection: () => void
+  onUnfollowed: (logins: string[]) => void
+}
+
+const NAMED_IN_CONFIRMATION = 10
+
+function formatDuration(seconds: number): string {
+  if (seconds < 5) {
+    return "a few seconds"
+  }
+  if (seconds < 60) {
+    return `${seconds} seconds`
+  }
+  const minutes = Math.ceil(seconds / 60)
+  return minutes === 1 ? "a minute" : `${minutes} minutes`
+}
+
+// Selection toolbar for the "not following back" grid: preview, confirm and run a throttled bulk unfollow
+export function BulkUnfollowBar({
+  username,
+  selected,
+  total,
+  host,
+  signedInAs,
+  onSelectAll,
+  onClearSelection,
+  onUnfollowed,
+}: BulkUnfollowBarProps) {
+  const [token, setToken] = useState("")
+  const usesSession = !!signedInAs && signedInAs.toLowerCase() === username.toLowerCase()
+  const inspection = useTokenInspection(token, host, !!token || usesSession)
+  const tokenBlocked = isTokenBlocked(inspection.result, "follow", username)
+  const [running, setRunning] = useState(false)
+  const [batchSize, setBatchSize] = useState(0)
+  const [report, setReport] = useState<FollowActionResult[]>([])
+  const [estimatedSeconds, setEstimatedSeconds] = useState<number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (dryRun: boolean) => {
+    setRunning(true)
+    setBatchSize(selected.length)
+    setReport([])
+    setError(null)
+    try {
+      const request = { logins: selected, token: token || undefined, host, dryRun, expectedActor: username }
+      const result = await streamBulkUnfollow(request, (account) => setReport((current) => [...current, account]))
+      setReport(result.results ?? [])
+      setEstimatedSeconds(result.estimatedSeconds ?? null)
+      setError(result.error ?? null)
+      const unfollowed = (result.results ?? []).filter((account) => account.status === "unfollowed")
+      if (unfollowed.length > 0) {
+        onUnfollowed(unfollowed.map((account) => account.login))
+      }
+    } catch (err) {
+      console.error("Failed to unfollow:", err)
+      setError("An unexpected error occurred. Check your following list on GitHub before retrying.")
+    } finally {
+      setRunning(false)
+    }
+  }
+
+  const named = selected.slice(0, NAMED_IN_CONFIRMATION).join(", ")
+  const unnamed = selected.length - NAMED_IN_CONFIRMATION
+  const isDryRunReport = report.length > 0 && report.every((account) => account.status === "would-unfollow")
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span>
+          {selected.length} of {total} selected
+        </span>
+        <div className="flex gap-1">
+          <Button type="button" variant="ghost" size="sm" onClick={onSelectAll} disabled={running}>
+            Select all
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={onClearSelection} disabled={running}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {usesSession ? (
+        <p className="text-xs text-muted-foreground">Unfollowing as {signedInAs}, who is signed in with GitHub.</p>
+      ) : (
+        <div className="space-y-1">
+          <Input
+            type="password"
+            placeholder="Token with the user:follow scope"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+            disabled={running}
+          />
+          <p className="text-xs text-muted-foreground">
+            The token must belong to {username}. It is only sent with this request and never stored.
+          </p>
+        </div>
+      )}
+      <TokenCapabilities {...inspection} actions={["follow"]} expectedLogin={username} />
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          variant="outline"
+          className="flex-1"
+          onClick={() => run(true)}
+          disabled={running || selected.length === 0}
+        >
+          Preview
+        </Button>
+        <AlertDialog>
+          <AlertDialogTrigger asChild>
+            <Button
+              type="button"
+              variant="destructive"
+              className="flex-1"
+              disabled={
+                running || selected.length === 0 || (!token && !usesSession) || inspection.checking || tokenBlocked
+              }
+            >
+              Unfollow {selected.length}
+            </Button>
+          </AlertDialogTrigger>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>
+                Unfollow {selected.length} {selected.length === 1 ? "account" : "accounts"}?
+              </AlertDialogTitle>
+              <AlertDialogDescription>
+                {username} will stop following {named}
+                {unnamed > 0 && ` and ${unnamed} more`}. Requests are sent one at a time to stay clear of
+                GitHub&apos;s abuse detection, so this takes about{" "}
+                {formatDuration(selected.length - 1)}.
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction onClick={() => run(false)}>Unfollow</AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+
+      {running && batchSize > 0 && (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 text-xs text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            {report.length} of {batchSize} handled
+          </div>
+          <Progress value={(report.length / batchSize) * 100} className="h-2" />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-500">{error}</p>}
+
+      {!running && isDryRunReport && estimatedSeconds !== null && (
+        <p className="text-sm text-muted-foreground">
+          Dry run: nothing was unfollowed. The real run would take about {formatDuration(estimatedSeconds)}.
+        </p>
+      )}
+
+      {report.length > 0 && <FollowActionReport results={report} />}
+
+      {!running && report.some((account) => account.status === "unfollowed") && (
+        <p className="text-xs text-muted-foreground">
+          Unfollowed the wrong accounts?{" "}
+          <Link href="/journal" className="text-blue-500 hover:underline">
+            Undo the batch from the journal
+          </Link>
+          .
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,47 @@
+import { Check, Eye, MinusCircle, X } from "lucide-react"
+
+import type { FollowActionResult, FollowActionStatus } from "@/lib/follow-actions"
+import { cn } from "@/lib/utils"
+
+const STATUS_ICONS: Record<FollowActionStatus, typeof Check> = {
+  followed: Check,
+  unfollowed: Check,
+  "would-follow": Eye,
+  "would-unfollow": Eye,
+  failed: X,
+  skipped: MinusCircle,
+}
+
+const STATUS_LABELS: Record<FollowActionStatus, string> = {
+  followed: "Followed",
+  unfollowed: "Unfollowed",
+  "would-follow": "Would follow",
+  "would-unfollow": "Would unfollow",
+  failed: "Failed",
+  skipped: "Skipped",
+}
+
+// Per-account outcome of a follow, unfollow or undo batch
+export function FollowActionReport({ results }: { results: FollowActionResult[] }) {
+  return (
+    <ul className="max-h-48 overflow-y-auto space-y-1 text-sm">
+      {results.map((account) => {
+        const Icon = STATUS_ICONS[account.status]
+        return (
+          <li key={account.login} className="flex items-start gap-2">
+            <Icon
+              className={cn(
+                "h-4 w-4 mt-0.5 shrink-0",
+                account.status === "failed" ? "text-red-500" : "text-muted-foreground",
+              )}
+            />
+            <span>
+              <span className="font-medium">{account.login}</span>: {STATUS_LABELS[account.status]}
+              {account.error && <span className="text-muted-foreground"> ({account.error})</span>}
+            </span>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,149 @@
+"use client"
+
+import { useState } from "react"
+import { Loader2 } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Progress } from "@/components/ui/progress"
+import { isTokenBlocked, TokenCapabilities } from "@/components/token-capabilities"
+import type { FollowBackQueue } from "@/hooks/use-follow-back-queue"
+import { useTokenInspection } from "@/hooks/use-token-inspection"
+import { DAILY_FOLLOW_CAP, FOLLOW_INTERVAL_MS } from "@/lib/follow-limits"
+
+interface FollowBackBarProps {
+  username: string // The scanned account; the token has to belong to it
+  selected: string[]
+  total: number
+  queue: FollowBackQueue
+  host?: string
+  signedInAs?: string // Login of the GitHub session, whose token is used when none is typed in
+  onSelectAll: () => void
+  onClearSelection: () => void
+}
+
+// Selection toolbar for the "not followed back" grid: queues follow-backs and works through them slowly
+export function FollowBackBar({
+  username,
+  selected,
+  total,
+  queue,
+  host,
+  signedInAs,
+  onSelectAll,
+  onClearSelection,
+}: FollowBackBarProps) {
+  const [token, setToken] = useState("")
+  const usesSession = !!signedInAs && signedInAs.toLowerCase() === username.toLowerCase()
+  const hasToken = !!token || usesSession
+  const inspection = useTokenInspection(token, host, hasToken)
+  const canFollow = hasToken && !inspection.checking && !isTokenBlocked(inspection.result, "follow", username)
+
+  const followBack = () => {
+    queue.enqueue(selected)
+    onClearSelection()
+    void queue.start(token)
+  }
+
+  const failed = queue.results.filter((result) => result.status === "failed")
+  const handled = queue.results.length
+  const remainingToday = Math.max(0, DAILY_FOLLOW_CAP - queue.dailyCount)
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+        <span>
+          {selected.length} of {total} selected
+        </span>
+        <div className="flex gap-1">
+          <Button type="button" variant="ghost" size="sm" onClick={onSelectAll}>
+            Select all
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={onClearSelection}>
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      {usesSession ? (
+        <p className="text-xs text-muted-foreground">Following as {signedInAs}, who is signed in with GitHub.</p>
+      ) : (
+        <div className="space-y-1">
+          <Input
+            type="password"
+            placeholder="Token with the user:follow scope"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            The token must belong to {username}. It stays in this tab and is never stored, so resuming after a
+            reload needs it again.
+          </p>
+        </div>
+      )}
+      <TokenCapabilities {...inspection} actions={["follow"]} expectedLogin={username} />
+
+      <div className="flex gap-2">
+        <Button
+          type="button"
+          className="flex-1"
+          onClick={followBack}
+          disabled={selected.length === 0 || !canFollow || remainingToday === 0}
+        >
+          Follow back {selected.length}
+        </Button>
+        {queue.running ? (
+          <Button type="button" variant="outline" className="flex-1" onClick={queue.pause}>
+            Pause
+          </Button>
+        ) : (
+          queue.pending.length > 0 && (
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              onClick={() => void queue.start(token)}
+              disabled={!canFollow || remainingToday === 0}
+            >
+              Resume {queue.pending.length}
+            </Button>
+          )
+        )}
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        {queue.dailyCount} of {DAILY_FOLLOW_CAP} follows used today. Requests go out every{" "}
+        {FOLLOW_INTERVAL_MS / 1000} seconds to stay clear of GitHub&apos;s abuse detection.
+      </p>
+
+      {(queue.pending.length > 0 || handled > 0) && (
+        <div className="space-y-1">
+          <div className="flex items-center justify-between text-xs text-muted-foreground">
+            <span className="flex items-center gap-2">
+              {queue.running && <Loader2 className="h-3 w-3 animate-spin" />}
+              {handled} done, {queue.pending.length} queued
+              {!queue.running && queue.pending.length > 0 && " (paused)"}
+            </span>
+            <Button type="button" variant="link" size="sm" className="h-auto p-0 text-xs" onClick={queue.clear}>
+              Clear queue
+            </Button>
+          </div>
+          <Progress value={(handled / (handled + queue.pending.length)) * 100} className="h-2" />
+        </div>
+      )}
+
+      {queue.error && <p className="text-sm text-red-500">{queue.error}</p>}
+
+      {failed.length > 0 && (
+        <ul className="max-h-32 overflow-y-auto space-y-1 text-sm">
+          {failed.map((result) => (
+            <li key={result.login}>
+              <span className="font-medium">{result.login}</span>:{" "}
+              <span className="text-muted-foreground">{result.error}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
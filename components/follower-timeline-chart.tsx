@@ -0,0 +1,97 @@
+"use client"
+
+import { CartesianGrid, Line, LineChart, XAxis, YAxis, type TooltipContentProps } from "recharts"
+
+import { ChartContainer, ChartLegend, ChartTooltip, type ChartConfig } from "@/components/ui/chart"
+import type { FollowerTimelinePoint } from "@/lib/history"
+
+const chartConfig = {
+  followers: { label: "Followers", color: "var(--chart-1)" },
+  following: { label: "Following", color: "var(--chart-2)" },
+  mutuals: { label: "Mutuals", color: "var(--chart-3)" },
+} satisfies ChartConfig
+
+// Long change lists are cut short so the tooltip stays on screen
+const MAX_LISTED_LOGINS = 8
+
+function formatDate(takenAt: number) {
+  return new Date(takenAt).toLocaleDateString(undefined, { month: "short", day: "numeric" })
+}
+
+function LoginChanges({ label, logins, className }: { label: string; logins: string[]; className: string }) {
+  if (logins.length === 0) {
+    return null
+  }
+  const hidden = logins.length - MAX_LISTED_LOGINS
+  return (
+    <div>
+      <p className={className}>
+        {label} ({logins.length})
+      </p>
+      <p className="text-muted-foreground">
+        {logins.slice(0, MAX_LISTED_LOGINS).join(", ")}
+        {hidden > 0 && ` and ${hidden} more`}
+      </p>
+    </div>
+  )
+}
+
+// Replaces the default tooltip so each point also lists the followers gained and lost since the previous one
+function TimelineTooltip({ active, payload }: TooltipContentProps<number, string>) {
+  const point = payload?.[0]?.payload as FollowerTimelinePoint | undefined
+  if (!active || !point) {
+    return null
+  }
+
+  return (
+    <div className="border-border/50 bg-background grid max-w-64 gap-1.5 rounded-lg border px-2.5 py-1.5 text-xs shadow-xl">
+      <p className="font-medium">{new Date(point.takenAt).toLocaleString()}</p>
+      <div className="grid gap-0.5">
+        {(Object.keys(chartConfig) as (keyof typeof chartConfig)[]).map((key) => (
+          <div key={key} className="flex items-center justify-between gap-4">
+            <span className="flex items-center gap-1.5 text-muted-foreground">
+              <span className="h-2.5 w-2.5 rounded-[2px]" style={{ backgroundColor: `var(--color-${key})` }} />
+              {chartConfig[key].label}
+            </span>
+            <span className="font-mono font-medium tabular-nums">{point[key]}</span>
+          </div>
+        ))}
+      </div>
+      <LoginChanges label="Gained" logins={point.gained} className="font-medium text-green-600" />
+      <LoginChanges label="Lost" logins={point.lost} className="font-medium text-red-500" />
+    </div>
+  )
+}
+
+export function FollowerTimelineChart({ points }: { points: FollowerTimelinePoint[] }) {
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+      <LineChart data={points} margin={{ left: -16, right: 8, top: 8 }}>
+        <CartesianGrid vertical={false} />
+        <XAxis
+          dataKey="takenAt"
+          type="number"
+          scale="time"
+          domain={["dataMin", "dataMax"]}
+          tickFormatter={formatDate}
+          tickLine={false}
+          axisLine={false}
+        />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} />
+        <ChartTooltip content={TimelineTooltip} />
+        <ChartLegend />
+        {(Object.keys(chartConfig) as (keyof typeof chartConfig)[]).map((key) => (
+          <Line
+            key={key}
+            dataKey={key}
+            name={chartConfig[key].label}
+            type="monotone"
+            stroke={`var(--color-${key})`}
+            strokeWidth={2}
+            dot
+          />
+        ))}
+      </LineChart>
+    </ChartContainer>
+  )
+}
@@ -0,0 +1,30 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import type { GitHubHostSummary } from "@/lib/github-hosts"
+
+interface HostSelectProps {
+  hosts: GitHubHostSummary[]
+  value?: string
+  onValueChange: (host: string) => void
+}
+
+// Only rendered when the deployment offers more than one GitHub host
+export function HostSelect({ hosts, value, onValueChange }: HostSelectProps) {
+  if (hosts.length <= 1) {
+    return null
+  }
+
+  return (
+    <Select value={value} onValueChange={onValueChange}>
+      <SelectTrigger className="w-full" aria-label="GitHub host">
+        <SelectValue placeholder="GitHub host" />
+      </SelectTrigger>
+      <SelectContent>
+        {hosts.map((candidate) => (
+          <SelectItem key={candidate.host} value={candidate.host}>
+            {candidate.host}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
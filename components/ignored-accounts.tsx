@@ -0,0 +1,60 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { EyeOff } from "lucide-react"
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import { Button } from "@/components/ui/button"
+
+interface IgnoredAccountsProps {
+  logins: string[]
+  webUrl: string
+  onUnignore: (login: string) => void
+}
+
+// The "N hidden" toggle under a result section, listing accounts the ignore list left out
+export function IgnoredAccounts({ logins, webUrl, onUnignore }: IgnoredAccountsProps) {
+  const [open, setOpen] = useState(false)
+
+  return (
+    <div className="space-y-2">
+      <Button
+        type="button"
+        variant="ghost"
+        size="sm"
+        className="-mx-2 text-muted-foreground"
+        onClick={() => setOpen((current) => !current)}
+      >
+        <EyeOff className="h-4 w-4" />
+        {logins.length} hidden{open ? "" : " · show"}
+      </Button>
+      {open && (
+        <div className="space-y-2">
+          <ul className="space-y-2">
+            {logins.map((login) => (
+              <li key={login} className="flex items-center gap-2">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={`${webUrl}/${login}.png?size=64`} alt={`${login}'s avatar`} />
+                  <AvatarFallback>{login.substring(0, 2).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <Link
+                  href={`${webUrl}/${login}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="flex-1 font-medium hover:underline"
+                >
+                  {login}
+                </Link>
+                <Button type="button" variant="outline" size="sm" onClick={() => onUnignore(login)}>
+                  Unhide
+                </Button>
+              </li>
+            ))}
+          </ul>
+          <p className="text-xs text-muted-foreground">Unhidden accounts return to the results on the next check.</p>
+        </div>
+      )}
+    </div>
+  )
+}
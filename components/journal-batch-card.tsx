@@ -0,0 +1,124 @@
+"use client"
+
+import { useState } from "react"
+import { ChevronDown, Loader2, Undo2 } from "lucide-react"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible"
+import { Progress } from "@/components/ui/progress"
+import { FollowActionReport } from "@/components/follow-action-report"
+import { LoginList } from "@/components/login-list"
+import type { FollowActionResult } from "@/lib/follow-actions"
+import { streamUndo } from "@/lib/follow-actions-stream"
+import type { JournalBatch } from "@/lib/journal"
+
+interface JournalBatchCardProps {
+  batch: JournalBatch
+  token: string // Empty when the signed-in session's token is used
+  canUndo: boolean
+  webUrl: string
+  onUndone: () => void // Reload the journal so the batch shows as undone
+}
+
+function describeBatch(batch: JournalBatch, succeeded: number): string {
+  const verb = batch.action === "follow" ? "Followed" : "Unfollowed"
+  const accounts = `${succeeded} ${succeeded === 1 ? "account" : "accounts"}`
+  return batch.undoOf ? `Undo: ${verb.toLowerCase()} ${accounts} again` : `${verb} ${accounts}`
+}
+
+export function JournalBatchCard({ batch, token, canUndo, webUrl, onUndone }: JournalBatchCardProps) {
+  const [undoing, setUndoing] = useState(false)
+  const [report, setReport] = useState<FollowActionResult[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const succeeded = batch.entries.filter((entry) => entry.status === "succeeded")
+  const failedCount = batch.entries.length - succeeded.length
+  const inverse = batch.action === "follow" ? "unfollow" : "follow"
+
+  const undo = async () => {
+    setUndoing(true)
+    setReport([])
+    setError(null)
+    try {
+      const result = await streamUndo({ batchId: batch.batchId, token }, (account) =>
+        setReport((current) => [...current, account]),
+      )
+      setReport(result.results ?? [])
+      setError(result.error ?? null)
+      if (result.batchId) {
+        onUndone()
+      }
+    } catch (err) {
+      console.error("Failed to undo batch:", err)
+      setError("An unexpected error occurred. Reload the journal before retrying.")
+    } finally {
+      setUndoing(false)
+    }
+  }
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <p className="font-medium">{describeBatch(batch, succeeded.length)}</p>
+          <p className="text-xs text-muted-foreground">
+            {new Date(batch.startedAt).toLocaleString()} · as {batch.actor} on {batch.host}
+            {failedCount > 0 && ` · ${failedCount} failed`}
+            {batch.undoneBy && " · undone"}
+          </p>
+        </div>
+        {!batch.undoneBy && succeeded.length > 0 && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button type="button" variant="outline" size="sm" disabled={undoing || !canUndo}>
+                {undoing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Undo2 className="h-4 w-4" />}
+                Undo
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Undo this batch?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  {batch.actor} will {inverse} {succeeded.length}{" "}
+                  {succeeded.length === 1 ? "account" : "accounts"} again, one request per second.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={undo}>Undo</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+
+      {undoing && (
+        <Progress value={(report.length / Math.max(1, succeeded.length)) * 100} className="h-2" />
+      )}
+      {error && <p className="text-sm text-red-500">{error}</p>}
+      {report.length > 0 && <FollowActionReport results={report} />}
+
+      <Collapsible>
+        <CollapsibleTrigger asChild>
+          <Button type="button" variant="ghost" size="sm" className="-mx-2">
+            Show accounts <ChevronDown className="h-4 w-4" />
+          </Button>
+        </CollapsibleTrigger>
+        <CollapsibleContent className="pt-2">
+          <LoginList logins={succeeded.map((entry) => entry.target)} webUrl={webUrl} />
+        </CollapsibleContent>
+      </Collapsible>
+    </div>
+  )
+}
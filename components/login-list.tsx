@@ -0,0 +1,37 @@
+import Link from "next/link"
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+
+interface LoginListProps {
+  logins: string[]
+  webUrl: string // Profile pages and avatars are served from the host's web URL
+  emptyMessage?: string
+}
+
+// Compact avatar + login rows for lists where only logins are known, e.g. snapshot diffs
+export function LoginList({ logins, webUrl, emptyMessage = "Nobody." }: LoginListProps) {
+  if (logins.length === 0) {
+    return <p className="text-sm text-muted-foreground">{emptyMessage}</p>
+  }
+
+  return (
+    <ul className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+      {logins.map((login) => (
+        <li key={login} className="flex items-center gap-2">
+          <Avatar className="h-8 w-8">
+            <AvatarImage src={`${webUrl}/${login}.png?size=64`} alt={`${login}'s avatar`} />
+            <AvatarFallback>{login.substring(0, 2).toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <Link
+            href={`${webUrl}/${login}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="font-medium hover:underline"
+          >
+            {login}
+          </Link>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,56 @@
+import Link from "next/link"
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import type { Recommendation } from "@/lib/recommendations"
+
+interface RecommendationListProps {
+  recommendations: Recommendation[]
+  webUrl: string
+}
+
+const NAMED_FOLLOWERS = 3
+
+function describeReason({ followedBy }: Recommendation) {
+  return `Followed by ${followedBy.length} ${followedBy.length === 1 ? "person" : "people"} you follow`
+}
+
+function describeFollowers({ followedBy }: Recommendation) {
+  const named = followedBy.slice(0, NAMED_FOLLOWERS).join(", ")
+  const others = followedBy.length - NAMED_FOLLOWERS
+  return others > 0 ? `${named} and ${others} more` : named
+}
+
+export function RecommendationList({ recommendations, webUrl }: RecommendationListProps) {
+  if (recommendations.length === 0) {
+    return <p className="text-sm text-muted-foreground">No recommendations yet. Try expanding more followings.</p>
+  }
+
+  return (
+    <ul className="space-y-3">
+      {recommendations.map((recommendation) => (
+        <li key={recommendation.login} className="flex items-center gap-3">
+          <Avatar className="h-10 w-10">
+            <AvatarImage
+              src={`${webUrl}/${recommendation.login}.png?size=80`}
+              alt={`${recommendation.login}'s avatar`}
+            />
+            <AvatarFallback>{recommendation.login.substring(0, 2).toUpperCase()}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <Link
+              href={`${webUrl}/${recommendation.login}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium hover:underline"
+            >
+              {recommendation.login}
+            </Link>
+            <p className="text-sm text-muted-foreground truncate" title={recommendation.followedBy.join(", ")}>
+              {describeReason(recommendation)} · {describeFollowers(recommendation)}
+            </p>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,51 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { usePathname } from "next/navigation"
+import { LogIn, LogOut } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import type { SessionState } from "@/hooks/use-session-status"
+
+interface SignInStatusProps {
+  session: SessionState
+}
+
+// "Sign in with GitHub", or who is signed in with a way out. Renders nothing when no OAuth app is configured.
+export function SignInStatus({ session }: SignInStatusProps) {
+  const [error, setError] = useState<string | null>(null)
+  const pathname = usePathname()
+
+  // The callback route reports failures through ?signInError=
+  useEffect(() => {
+    setError(new URLSearchParams(window.location.search).get("signInError"))
+  }, [])
+
+  if (!session.oauthEnabled) {
+    return null
+  }
+
+  return (
+    <div className="flex flex-col items-center gap-1 text-sm">
+      {session.login ? (
+        <div className="flex items-center gap-2">
+          <span className="text-muted-foreground">
+            Signed in as <span className="font-medium text-foreground">{session.login}</span>
+          </span>
+          <Button type="button" variant="ghost" size="sm" onClick={() => void session.signOut()}>
+            <LogOut className="h-4 w-4" />
+            Sign out
+          </Button>
+        </div>
+      ) : (
+        <Button asChild variant="outline" size="sm">
+          <a href={`/api/auth/login?returnTo=${encodeURIComponent(pathname)}`}>
+            <LogIn className="h-4 w-4" />
+            Sign in with GitHub
+          </a>
+        </Button>
+      )}
+      {error && <p className="text-red-500">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { Fragment } from "react"
+
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
+import type { GitHubUser } from "@/lib/github-schemas"
+import { cn } from "@/lib/utils"
+
+interface TeamHeatmapProps {
+  members: GitHubUser[]
+  matrix: boolean[][] // matrix[i][j]: members[i] follows members[j]
+}
+
+function describeCell(follower: GitHubUser, followed: GitHubUser, follows: boolean, followedBack: boolean) {
+  if (follows && followedBack) {
+    return `${follower.login} and ${followed.login} follow each other`
+  }
+  if (follows) {
+    return `${follower.login} follows ${followed.login}`
+  }
+  return `${follower.login} doesn't follow ${followed.login}`
+}
+
+function cellColor(follows: boolean, followedBack: boolean) {
+  if (follows) {
+    return followedBack ? "bg-green-600" : "bg-green-300 dark:bg-green-800"
+  }
+  return "bg-muted"
+}
+
+// Rows follow columns: a filled cell means the row's member follows the column's member
+export function TeamHeatmap({ members, matrix }: TeamHeatmapProps) {
+  return (
+    <div className="space-y-2">
+      <div className="overflow-x-auto pb-2">
+        <div
+          className="inline-grid gap-0.5 items-center"
+          style={{ gridTemplateColumns: `auto repeat(${members.length}, 1.75rem)` }}
+        >
+          <div />
+          {members.map((member) => (
+            <div key={member.login} className="flex justify-center" title={member.login}>
+              <Avatar className="h-6 w-6">
+                <AvatarImage src={member.avatar_url} alt={`${member.login}'s avatar`} />
+                <AvatarFallback className="text-[10px]">{member.login.substring(0, 2).toUpperCase()}</AvatarFallback>
+              </Avatar>
+            </div>
+          ))}
+          {members.map((follower, i) => (
+            <Fragment key={follower.login}>
+              <div className="pr-2 text-xs text-right truncate max-w-32" title={follower.login}>
+                {follower.login}
+              </div>
+              {members.map((followed, j) => {
+                if (i === j) {
+                  return <div key={followed.login} className="h-7" />
+                }
+                const follows = matrix[i][j]
+                const followedBack = matrix[j][i]
+                return (
+                  <div
+                    key={followed.login}
+                    title={describeCell(follower, followed, follows, followedBack)}
+                    className={cn("h-7 rounded-sm", cellColor(follows, followedBack))}
+                  />
+                )
+              })}
+            </Fragment>
+          ))}
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        <span className="flex items-center gap-1.5">
+          <span className={cn("h-3 w-3 rounded-sm", cellColor(true, true))} /> Mutual
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className={cn("h-3 w-3 rounded-sm", cellColor(true, false))} /> Row follows column
+        </span>
+        <span className="flex items-center gap-1.5">
+          <span className={cn("h-3 w-3 rounded-sm", cellColor(false, false))} /> Not following
+        </span>
+      </div>
+    </div>
+  )
+}
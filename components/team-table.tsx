@@ -0,0 +1,86 @@
+"use client"
+
+import { useState } from "react"
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react"
+
+import { Button } from "@/components/ui/button"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import type { TeamMemberStats } from "@/lib/team"
+
+type SortKey = keyof TeamMemberStats
+
+const COLUMNS: { key: SortKey; label: string; numeric: boolean }[] = [
+  { key: "login", label: "Member", numeric: false },
+  { key: "follows", label: "Follows", numeric: true },
+  { key: "followedBy", label: "Followed by", numeric: true },
+  { key: "mutuals", label: "Mutuals", numeric: true },
+  { key: "reciprocity", label: "Reciprocity", numeric: true },
+]
+
+// Members who follow nobody have no reciprocity and always sort last
+function compareStats(a: TeamMemberStats, b: TeamMemberStats, key: SortKey): number {
+  const left = a[key]
+  const right = b[key]
+  if (left === null || right === null) {
+    return left === right ? 0 : left === null ? 1 : -1
+  }
+  return typeof left === "string" ? left.localeCompare(right as string) : left - (right as number)
+}
+
+export function TeamTable({ stats }: { stats: TeamMemberStats[] }) {
+  const [sortKey, setSortKey] = useState<SortKey>("followedBy")
+  const [descending, setDescending] = useState(true)
+
+  const sorted = [...stats].sort((a, b) => {
+    const order = compareStats(a, b, sortKey)
+    // Keep members without a value last in either direction
+    return a[sortKey] === null || b[sortKey] === null ? order : descending ? -order : order
+  })
+
+  const toggleSort = (key: SortKey, numeric: boolean) => {
+    if (key === sortKey) {
+      setDescending(!descending)
+    } else {
+      setSortKey(key)
+      setDescending(numeric) // Counts read best largest first, names alphabetically
+    }
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          {COLUMNS.map((column) => {
+            const Icon = column.key !== sortKey ? ArrowUpDown : descending ? ArrowDown : ArrowUp
+            return (
+              <TableHead key={column.key} className={column.numeric ? "text-right" : undefined}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="-mx-2"
+                  onClick={() => toggleSort(column.key, column.numeric)}
+                >
+                  {column.label}
+                  <Icon className="h-3.5 w-3.5" />
+                </Button>
+              </TableHead>
+            )
+          })}
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {sorted.map((member) => (
+          <TableRow key={member.login}>
+            <TableCell className="font-medium">{member.login}</TableCell>
+            <TableCell className="text-right">{member.follows}</TableCell>
+            <TableCell className="text-right">{member.followedBy}</TableCell>
+            <TableCell className="text-right">{member.mutuals}</TableCell>
+            <TableCell className="text-right">
+              {member.reciprocity === null ? "—" : `${Math.round(member.reciprocity * 100)}%`}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  )
+}
@@ -0,0 +1,94 @@
+import { CheckCircle2, HelpCircle, Loader2, XCircle } from "lucide-react"
+
+import type { TokenAction, TokenInspection, TokenInspectionResult, TokenKind } from "@/lib/token-inspection"
+
+interface TokenCapabilitiesProps {
+  result: TokenInspectionResult | null
+  checking: boolean
+  actions: TokenAction[] // The actions the page is about to run
+  expectedLogin?: string // Writes act as the token's owner, so warn when that's someone else
+}
+
+const KIND_LABELS: Record<TokenKind, string> = {
+  classic: "Classic token",
+  oauth: "OAuth app token",
+  "fine-grained": "Fine-grained token",
+  "github-app": "GitHub App token",
+  unknown: "Token",
+}
+
+const ACTION_LABELS: Record<TokenAction, string> = {
+  scan: "Check followers",
+  "read-org": "See private organization members",
+  follow: "Follow and unfollow",
+}
+
+const STATUS_ICONS = {
+  yes: <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />,
+  no: <XCircle className="h-4 w-4 shrink-0 text-red-500" />,
+  unknown: <HelpCircle className="h-4 w-4 shrink-0 text-muted-foreground" />,
+}
+
+function ownedBySomeoneElse(inspection: TokenInspection, expectedLogin?: string): boolean {
+  return !!expectedLogin && inspection.login.toLowerCase() !== expectedLogin.toLowerCase()
+}
+
+// Whether a checked token certainly can't run `action`, so the page can refuse before sending anything
+export function isTokenBlocked(
+  result: TokenInspectionResult | null,
+  action: TokenAction,
+  expectedLogin?: string,
+): boolean {
+  const inspection = result?.inspection
+  if (!inspection) {
+    return !!result?.error && !result.isRateLimitError // A rejected token; rate limits say nothing about it
+  }
+  return inspection.capabilities[action].status === "no" || ownedBySomeoneElse(inspection, expectedLogin)
+}
+
+// Who a token belongs to, its scopes, and whether it can run the actions at hand
+export function TokenCapabilities({ result, checking, actions, expectedLogin }: TokenCapabilitiesProps) {
+  if (checking) {
+    return (
+      <p className="flex items-center gap-2 text-xs text-muted-foreground">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Checking the token...
+      </p>
+    )
+  }
+  if (result?.error) {
+    return <p className="text-xs text-red-500">{result.error}</p>
+  }
+  const inspection = result?.inspection
+  if (!inspection) {
+    return null
+  }
+
+  return (
+    <div className="space-y-1 text-xs">
+      <p className="text-muted-foreground">
+        {KIND_LABELS[inspection.kind]} of <span className="font-medium text-foreground">{inspection.login}</span>
+        {" · "}
+        {inspection.scopes === undefined
+          ? "GitHub doesn't report this token's permissions"
+          : `scopes: ${inspection.scopes.length > 0 ? inspection.scopes.join(", ") : "none"}`}
+      </p>
+      {ownedBySomeoneElse(inspection, expectedLogin) && (
+        <p className="text-red-500">
+          This token belongs to {inspection.login}, not {expectedLogin}.
+        </p>
+      )}
+      <ul className="space-y-1">
+        {actions.map((action) => (
+          <li key={action} className="flex items-start gap-2">
+            {STATUS_ICONS[inspection.capabilities[action].status]}
+            <span>
+              <span className="font-medium">{ACTION_LABELS[action]}</span>:{" "}
+              <span className="text-muted-foreground">{inspection.capabilities[action].detail}</span>
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+import Link from "next/link"
+import { usePathname } from "next/navigation"
+
+import { Input } from "@/components/ui/input"
+import { TokenCapabilities } from "@/components/token-capabilities"
+import { useSessionStatus } from "@/hooks/use-session-status"
+import { useTokenInspection } from "@/hooks/use-token-inspection"
+import type { TokenAction } from "@/lib/token-inspection"
+
+interface TokenPromptProps {
+  token: string
+  onTokenChange: (token: string) => void
+  webUrl: string // Token settings live on the selected host
+  host?: string
+  actions?: TokenAction[] // What the retry will need the token for, checked as it's typed
+}
+
+// Shown after an unauthenticated request hits the rate limit, asking for a PAT to retry with
+export function TokenPrompt({ token, onTokenChange, webUrl, host, actions = ["scan"] }: TokenPromptProps) {
+  const session = useSessionStatus()
+  const pathname = usePathname()
+  const { result, checking } = useTokenInspection(token, host, !!token)
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-muted-foreground">
+        You've hit the unauthenticated GitHub API rate limit. Please provide a GitHub Personal Access Token (PAT) to
+        continue. Generate one at{" "}
+        <Link
+          href={`${webUrl}/settings/tokens`}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-blue-500 hover:underline"
+        >
+          GitHub Settings &gt; Developer settings &gt; Personal access tokens
+        </Link>
+        . Reading public followers needs no scopes
+        {actions.includes("read-org") ? ", but seeing private organization members needs read:org." : "."}
+        {session.oauthEnabled && !session.login && (
+          <>
+            {" "}
+            Or{" "}
+            <a
+              href={`/api/auth/login?returnTo=${encodeURIComponent(pathname)}`}
+              className="text-blue-500 hover:underline"
+            >
+              sign in with GitHub
+            </a>{" "}
+            so every check uses your account.
+          </>
+        )}
+      </p>
+      <Input
+        type="password"
+        placeholder="Enter your GitHub PAT"
+        value={token}
+        onChange={(e) => onTokenChange(e.target.value)}
+        required
+        className="w-full"
+      />
+      <TokenCapabilities result={result} checking={checking} actions={actions} />
+    </div>
+  )
+}
@@ -0,0 +1,177 @@
+import * as React from "react"
+
+import { followAccount } from "@/app/actions"
+import type { FollowActionResult } from "@/lib/follow-actions"
+import { DAILY_FOLLOW_CAP, FOLLOW_INTERVAL_MS } from "@/lib/follow-limits"
+
+interface StoredQueue {
+  pending: string[]
+  results: FollowActionResult[]
+  batchId?: string // Journal batch for the current run, so it can be undone as a whole
+}
+
+interface StoredDailyCount {
+  day: string // UTC date, YYYY-MM-DD
+  count: number
+}
+
+const EMPTY_QUEUE: StoredQueue = { pending: [], results: [] }
+
+const today = () => new Date().toISOString().slice(0, 10)
+// crypto.randomUUID is missing outside secure contexts, e.g. a deployment served over plain http
+const newBatchId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const stored = window.localStorage.getItem(key)
+    return stored ? (JSON.parse(stored) as T) : fallback
+  } catch {
+    return fallback
+  }
+}
+
+function followedLogins(queue: StoredQueue): string[] {
+  return queue.results.filter((result) => result.status === "followed").map((result) => result.login)
+}
+
+function writeStorage(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value))
+  } catch (err) {
+    console.error("Failed to save the follow-back queue:", err)
+  }
+}
+
+// A follow-back queue for `owner` on `host`, kept in localStorage so closing the tab only pauses it. The token
+// is never stored: resuming after a reload needs it again.
+export function useFollowBackQueue(owner: string | null, host?: string) {
+  const scope = owner ? `${host ?? "default"}:${owner.toLowerCase()}` : null
+  const queueKey = `follow-back-queue:${scope}`
+  const dailyKey = `follow-back-daily:${scope}`
+
+  const [queue, setQueue] = React.useState<StoredQueue>(EMPTY_QUEUE)
+  const [dailyCount, setDailyCount] = React.useState(0)
+  const [running, setRunning] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const runningRef = React.useRef(false)
+  const generationRef = React.useRef(0) // Bumped on pause so a loop still sleeping or awaiting GitHub winds down
+
+  const loadDailyCount = React.useCallback(() => {
+    const stored = readStorage<StoredDailyCount>(dailyKey, { day: today(), count: 0 })
+    return stored.day === today() ? stored.count : 0
+  }, [dailyKey])
+
+  // Load whatever an earlier session left behind whenever the queue's owner changes
+  React.useEffect(() => {
+    runningRef.current = false
+    generationRef.current++
+    setRunning(false)
+    setError(null)
+    setQueue(scope ? readStorage(queueKey, EMPTY_QUEUE) : EMPTY_QUEUE)
+    setDailyCount(scope ? loadDailyCount() : 0)
+  }, [scope, queueKey, loadDailyCount])
+
+  const saveQueue = React.useCallback(
+    (next: StoredQueue) => {
+      writeStorage(queueKey, next)
+      setQueue(next)
+    },
+    [queueKey],
+  )
+
+  const enqueue = (logins: string[]) => {
+    if (!scope) {
+      return
+    }
+    const current = readStorage(queueKey, EMPTY_QUEUE)
+    const known = new Set([...current.pending, ...followedLogins(current)]) // Failed accounts can be queued again
+    saveQueue({
+      ...current,
+      pending: [...current.pending, ...logins.filter((login) => !known.has(login))],
+      batchId: current.pending.length > 0 && current.batchId ? current.batchId : newBatchId(),
+    })
+  }
+
+  const pause = () => {
+    runningRef.current = false
+    generationRef.current++
+    setRunning(false)
+  }
+
+  // Drops queued follows and the report, but not today's count: the follows already happened
+  const clear = () => {
+    pause()
+    setError(null)
+    saveQueue(EMPTY_QUEUE)
+  }
+
+  // Works through the queue until it's empty, paused, capped, or GitHub refuses the token. Storage is re-read
+  // every round so accounts queued while it runs are picked up.
+  const start = async (token: string) => {
+    if (!scope || runningRef.current) {
+      return
+    }
+    runningRef.current = true
+    const generation = ++generationRef.current
+    setRunning(true)
+    setError(null)
+    try {
+      while (generationRef.current === generation) {
+        const current = readStorage(queueKey, EMPTY_QUEUE)
+        const login = current.pending[0]
+        if (!login) {
+          break
+        }
+        const followedToday = loadDailyCount()
+        if (followedToday >= DAILY_FOLLOW_CAP) {
+          setError(`Reached today's cap of ${DAILY_FOLLOW_CAP} follows. The rest stay queued for tomorrow.`)
+          break
+        }
+
+        const result = await followAccount(login, token, host, current.batchId, owner ?? undefined)
+        const latest = readStorage(queueKey, EMPTY_QUEUE)
+        if (result.stopsBatch) {
+          setError(result.error ?? "GitHub refused the request.") // The account stays queued for a retry
+          break
+        }
+        saveQueue({
+          ...latest,
+          pending: latest.pending.filter((pendingLogin) => pendingLogin !== login),
+          results: [...latest.results.filter((existing) => existing.login !== login), result],
+        })
+        // The server's count also covers other tabs and devices
+        const count = result.followedToday ?? (result.status === "followed" ? followedToday + 1 : followedToday)
+        writeStorage(dailyKey, { day: today(), count } satisfies StoredDailyCount)
+        setDailyCount(count)
+
+        if (latest.pending.length > 1) {
+          await sleep(FOLLOW_INTERVAL_MS)
+        }
+      }
+    } catch (err) {
+      console.error("Follow-back queue failed:", err)
+      setError("An unexpected error occurred. The remaining accounts stay queued.")
+    } finally {
+      if (generationRef.current === generation) {
+        runningRef.current = false
+        setRunning(false)
+      }
+    }
+  }
+
+  return {
+    pending: queue.pending,
+    results: queue.results,
+    followed: new Set(followedLogins(queue)),
+    dailyCount,
+    running,
+    error,
+    enqueue,
+    start,
+    pause,
+    clear,
+  }
+}
+
+export type FollowBackQueue = ReturnType<typeof useFollowBackQueue>
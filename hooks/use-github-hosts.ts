@@ -0,0 +1,23 @@
+import * as React from "react"
+
+import { listGitHubHosts } from "@/app/actions"
+import type { GitHubHostSummary } from "@/lib/github-hosts"
+
+// Loads the hosts this deployment can search and tracks the selected one; the first host is the default
+export function useGitHubHosts() {
+  const [hosts, setHosts] = React.useState<GitHubHostSummary[]>([])
+  const [selectedHost, setSelectedHost] = React.useState<string | undefined>(undefined)
+
+  React.useEffect(() => {
+    listGitHubHosts()
+      .then((availableHosts) => {
+        setHosts(availableHosts)
+        setSelectedHost((current) => current ?? availableHosts[0]?.host)
+      })
+      .catch((err) => console.error("Failed to load GitHub hosts:", err))
+  }, [])
+
+  const webUrl = hosts.find((candidate) => candidate.host === selectedHost)?.webUrl ?? "https://github.com"
+
+  return { hosts, selectedHost, setSelectedHost, webUrl }
+}
@@ -0,0 +1,48 @@
+import * as React from "react"
+
+const storageKey = (owner: string, host?: string) => `ignore-list:${host ?? "default"}:${owner.toLowerCase()}`
+
+// Accounts `owner` has hidden from their results on `host`. Read directly when a scan starts, since the scanned
+// username may not have reached the hook's state yet.
+export function readIgnoreList(owner: string, host?: string): string[] {
+  try {
+    const stored = window.localStorage.getItem(storageKey(owner, host))
+    return stored ? (JSON.parse(stored) as string[]) : []
+  } catch {
+    return []
+  }
+}
+
+// A per-username ignore list kept in localStorage, so hidden accounts stay hidden across sessions
+export function useIgnoreList(owner: string | null, host?: string) {
+  const [ignored, setIgnored] = React.useState<string[]>([])
+
+  React.useEffect(() => {
+    setIgnored(owner ? readIgnoreList(owner, host) : [])
+  }, [owner, host])
+
+  const save = (update: (current: string[]) => string[]) => {
+    if (!owner) {
+      return
+    }
+    const next = update(readIgnoreList(owner, host))
+    try {
+      window.localStorage.setItem(storageKey(owner, host), JSON.stringify(next))
+    } catch (err) {
+      console.error("Failed to save the ignore list:", err)
+    }
+    setIgnored(next)
+  }
+
+  const ignore = (login: string) =>
+    save((current) =>
+      current.some((ignoredLogin) => ignoredLogin.toLowerCase() === login.toLowerCase())
+        ? current
+        : [...current, login],
+    )
+
+  const unignore = (login: string) =>
+    save((current) => current.filter((ignoredLogin) => ignoredLogin.toLowerCase() !== login.toLowerCase()))
+
+  return { ignored, ignore, unignore }
+}
@@ -0,0 +1,28 @@
+import * as React from "react"
+
+import { getSessionStatus, signOut } from "@/app/actions"
+import type { SessionStatus } from "@/lib/session"
+
+// Who is signed in with GitHub, if anyone. Server actions and routes pick the session's token up on their own;
+// the page only needs this to offer sign-in and to stop asking for a token.
+export function useSessionStatus() {
+  const [status, setStatus] = React.useState<SessionStatus>({ oauthEnabled: false })
+
+  React.useEffect(() => {
+    getSessionStatus()
+      .then(setStatus)
+      .catch((err) => console.error("Failed to load the session:", err))
+  }, [])
+
+  const signOutOfGitHub = async () => {
+    await signOut()
+    setStatus((current) => ({ oauthEnabled: current.oauthEnabled }))
+  }
+
+  // The session's token only applies to the host it was issued by
+  const signedInOn = (host?: string) => (status.login && status.host === host ? status.login : undefined)
+
+  return { ...status, signedInOn, signOut: signOutOfGitHub }
+}
+
+export type SessionState = ReturnType<typeof useSessionStatus>
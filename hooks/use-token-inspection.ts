@@ -0,0 +1,40 @@
+import * as React from "react"
+
+import { inspectGitHubToken } from "@/app/actions"
+import type { TokenInspectionResult } from "@/lib/token-inspection"
+
+const INSPECT_DELAY_MS = 500 // Wait for typing to pause before asking GitHub
+
+// Checks whose token this is and what it may do, as it's typed. With `token` empty the signed-in session's token
+// is checked instead; pass enabled = false to check nothing.
+export function useTokenInspection(token: string, host: string | undefined, enabled: boolean) {
+  const [result, setResult] = React.useState<TokenInspectionResult | null>(null)
+  const [checking, setChecking] = React.useState(false)
+
+  React.useEffect(() => {
+    setResult(null)
+    if (!enabled) {
+      setChecking(false)
+      return
+    }
+    let cancelled = false
+    setChecking(true)
+    const timeout = setTimeout(() => {
+      inspectGitHubToken(token || undefined, host)
+        .then((next) => !cancelled && setResult(next))
+        .catch((err) => {
+          console.error("Failed to check the token:", err)
+          if (!cancelled) {
+            setResult({ error: "Couldn't check the token. It will still be tried." })
+          }
+        })
+        .finally(() => !cancelled && setChecking(false))
+    }, INSPECT_DELAY_MS)
+    return () => {
+      cancelled = true
+      clearTimeout(timeout)
+    }
+  }, [token, host, enabled])
+
+  return { result, checking }
+}
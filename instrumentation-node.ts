@@ -0,0 +1,13 @@
+import { getCacheBackend } from "@/lib/cache"
+
+// Opening the cache backend at startup turns a misconfigured GITHUB_CACHE_BACKEND, e.g. sqlite on a Node.js
+// version without node:sqlite, into a startup failure instead of every scan quietly running uncached
+export async function checkCacheBackend() {
+  try {
+    await getCacheBackend()
+  } catch (error) {
+    // Next only logs errors thrown from register() and keeps a server that can't serve anything running
+    console.error("Cannot start: the configured cache backend failed to open.", error)
+    process.exit(1)
+  }
+}
@@ -0,0 +1,8 @@
+// Runs once when the server starts. The checks live in instrumentation-node.ts, which is only imported on the
+// Node.js runtime, so the Edge bundle never sees the Node.js APIs they use.
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { checkCacheBackend } = await import("./instrumentation-node")
+    await checkCacheBackend()
+  }
+}
@@ -0,0 +1,73 @@
+import { createHash } from "node:crypto"
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises"
+import path from "node:path"
+
+import { isExpired, type CacheBackend, type CacheEntry } from "@/lib/cache"
+
+const SWEEP_INTERVAL_MS = 10 * 60 * 1000
+
+// One JSON file per key under `directory`, named by the key's hash so any key is a safe filename. Files of keys
+// that are never read again would pile up, so writes sweep out expired files every `sweepIntervalMs`.
+export class FileCacheBackend implements CacheBackend {
+  private lastSweepAt = 0 // The first write sweeps, clearing what earlier processes left behind
+
+  constructor(
+    private directory: string,
+    private sweepIntervalMs = SWEEP_INTERVAL_MS,
+  ) {}
+
+  private pathFor(key: string): string {
+    return path.join(this.directory, `${createHash("sha256").update(key).digest("hex")}.json`)
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    let entry: CacheEntry<T>
+    try {
+      entry = JSON.parse(await readFile(this.pathFor(key), "utf8"))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined
+      }
+      throw error
+    }
+    if (isExpired(entry)) {
+      await this.delete(key)
+      return undefined
+    }
+    return entry.value
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    const entry: CacheEntry<T> = { value, expiresAt: Date.now() + ttlSeconds * 1000 }
+    const filePath = this.pathFor(key)
+    await mkdir(this.directory, { recursive: true })
+    if (Date.now() - this.lastSweepAt >= this.sweepIntervalMs) {
+      this.lastSweepAt = Date.now()
+      await this.sweepExpired()
+    }
+    // Write then rename so concurrent readers never see a partially written file
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`
+    await writeFile(tempPath, JSON.stringify(entry))
+    await rename(tempPath, filePath)
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true })
+  }
+
+  private async sweepExpired(): Promise<void> {
+    for (const name of await readdir(this.directory)) {
+      if (!name.endsWith(".json")) {
+        continue
+      }
+      const filePath = path.join(this.directory, name)
+      try {
+        if (isExpired(JSON.parse(await readFile(filePath, "utf8")))) {
+          await rm(filePath, { force: true })
+        }
+      } catch {
+        // Gone already, e.g. deleted by an expired read in parallel
+      }
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type { GitHubApiError } from "@/lib/github-api"
+
+export interface CacheBackend {
+  get<T>(key: string): Promise<T | undefined> // Undefined when missing or expired
+  set<T>(key: string, value: T, ttlSeconds: number): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+// Stored alongside every value so each backend can expire entries the same way
+export interface CacheEntry<T> {
+  value: T
+  expiresAt: number // Unix epoch milliseconds
+}
+
+export interface CacheMetrics {
+  hits: number
+  misses: number
+  writes: number
+}
+
+// Per-scan view of the cache, threaded through the request context
+export interface RequestCache {
+  backend: CacheBackend
+  metrics: CacheMetrics
+  forceRefresh: boolean // Skip reads but still write, so a refresh repopulates the cache
+}
+
+export type CacheBackendName = "memory" | "file" | "sqlite"
+
+// Explicit TTLs per kind of data, overridable per deployment
+export const CACHE_TTL_SECONDS = {
+  list: Number(process.env.GITHUB_CACHE_LIST_TTL) || 3600, // Follower and following lists
+  profile: Number(process.env.GITHUB_CACHE_PROFILE_TTL) || 86_400, // User profiles
+}
+
+export function isExpired(entry: CacheEntry<unknown>): boolean {
+  return entry.expiresAt <= Date.now()
+}
+
+let backendPromise: Promise<CacheBackend> | null = null
+
+// The deployment's cache backend, chosen with GITHUB_CACHE_BACKEND and created once per server process
+export function getCacheBackend(): Promise<CacheBackend> {
+  if (!backendPromise) {
+    backendPromise = createCacheBackend((process.env.GITHUB_CACHE_BACKEND || "memory") as CacheBackendName)
+  }
+  return backendPromise
+}
+
+async function createCacheBackend(name: CacheBackendName): Promise<CacheBackend> {
+  switch (name) {
+    case "memory": {
+      const { MemoryCacheBackend } = await import("@/lib/cache/memory")
+      return new MemoryCacheBackend()
+    }
+    case "file": {
+      const { FileCacheBackend } = await import("@/lib/cache/file")
+      return new FileCacheBackend(process.env.GITHUB_CACHE_PATH || ".cache/github")
+    }
+    case "sqlite": {
+      const { SqliteCacheBackend } = await import("@/lib/cache/sqlite")
+      return SqliteCacheBackend.open(process.env.GITHUB_CACHE_PATH || ".cache/github.sqlite")
+    }
+    default:
+      throw new Error(`Unknown GITHUB_CACHE_BACKEND: ${name}. Use "memory", "file" or "sqlite".`)
+  }
+}
+
+// Falls back to no caching, rather than failing the scan, when the configured backend can't be created. A
+// misconfigured backend has already stopped the server at startup (see instrumentation.ts), so this only covers
+// backends that fail later, e.g. an unwritable cache directory.
+export async function createRequestCache(forceRefresh = false): Promise<RequestCache | undefined> {
+  try {
+    return { backend: await getCacheBackend(), metrics: { hits: 0, misses: 0, writes: 0 }, forceRefresh }
+  } catch (error) {
+    console.error("Cache backend unavailable, continuing without a cache:", error)
+    return undefined
+  }
+}
+
+// Reads `key` unless the scan forces a refresh, recording a hit or miss. Backend failures are logged and
+// treated as misses so the cache can never break a scan.
+export async function readCached<T>(cache: RequestCache | undefined, key: string): Promise<T | undefined> {
+  if (!cache) {
+    return undefined
+  }
+  if (!cache.forceRefresh) {
+    try {
+      const hit = await cache.backend.get<T>(key)
+      if (hit !== undefined) {
+        cache.metrics.hits++
+        return hit
+      }
+    } catch (error) {
+      console.error(`Cache read failed for ${key}:`, error)
+    }
+  }
+  cache.metrics.misses++
+  return undefined
+}
+
+export async function writeCached<T>(
+  cache: RequestCache | undefined,
+  key: string,
+  value: T,
+  ttlSeconds: number,
+): Promise<void> {
+  if (!cache) {
+    return
+  }
+  try {
+    await cache.backend.set(key, value, ttlSeconds)
+    cache.metrics.writes++
+  } catch (error) {
+    console.error(`Cache write failed for ${key}:`, error)
+  }
+}
+
+// Returns the cached value for `key`, or calls `load` and caches its result. Errors are never cached.
+export async function cached<T extends object>(
+  cache: RequestCache | undefined,
+  key: string,
+  ttlSeconds: number,
+  load: () => Promise<T | GitHubApiError>,
+): Promise<T | GitHubApiError> {
+  const hit = await readCached<T>(cache, key)
+  if (hit !== undefined) {
+    return hit
+  }
+  const value = await load()
+  if (!("error" in value)) {
+    await writeCached(cache, key, value, ttlSeconds)
+  }
+  return value
+}
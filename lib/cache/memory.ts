@@ -0,0 +1,36 @@
+import { isExpired, type CacheBackend, type CacheEntry } from "@/lib/cache"
+
+const MAX_ENTRIES = 10_000
+
+// Process-local cache; entries are lost on restart and aren't shared between server instances. Expired entries
+// are only dropped when read, so the oldest writes are evicted past `maxEntries` to keep memory bounded.
+export class MemoryCacheBackend implements CacheBackend {
+  private entries = new Map<string, CacheEntry<unknown>>()
+
+  constructor(private maxEntries = MAX_ENTRIES) {}
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    if (isExpired(entry)) {
+      this.entries.delete(key)
+      return undefined
+    }
+    return entry.value as T
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.entries.delete(key) // Rewritten keys move to the back of the eviction order
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 })
+    if (this.entries.size > this.maxEntries) {
+      const [oldest] = this.entries.keys() // Maps iterate in insertion order
+      this.entries.delete(oldest)
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key)
+  }
+}
@@ -0,0 +1,55 @@
+import { mkdir } from "node:fs/promises"
+import path from "node:path"
+import type { DatabaseSync } from "node:sqlite"
+
+import type { CacheBackend } from "@/lib/cache"
+
+// Backed by Node's built-in node:sqlite module, so no native dependency is needed. It loads without flags from
+// Node.js 22.13 and is still experimental there, so Node prints an ExperimentalWarning when it loads.
+export class SqliteCacheBackend implements CacheBackend {
+  private constructor(private db: DatabaseSync) {}
+
+  static async open(filename: string): Promise<SqliteCacheBackend> {
+    let sqlite: typeof import("node:sqlite")
+    try {
+      sqlite = await import("node:sqlite")
+    } catch {
+      throw new Error(
+        `GITHUB_CACHE_BACKEND=sqlite needs node:sqlite, which loads from Node.js 22.13 (or 22.5 with ` +
+          `--experimental-sqlite), but this is ${process.version}. Use the "file" backend instead.`,
+      )
+    }
+    await mkdir(path.dirname(filename), { recursive: true })
+    const db = new sqlite.DatabaseSync(filename)
+    db.exec("CREATE TABLE IF NOT EXISTS cache (key TEXT PRIMARY KEY, value TEXT NOT NULL, expires_at INTEGER NOT NULL)")
+    db.prepare("DELETE FROM cache WHERE expires_at <= ?").run(Date.now())
+    return new SqliteCacheBackend(db)
+  }
+
+  async get<T>(key: string): Promise<T | undefined> {
+    const row = this.db.prepare("SELECT value, expires_at FROM cache WHERE key = ?").get(key) as
+      | { value: string; expires_at: number }
+      | undefined
+    if (!row) {
+      return undefined
+    }
+    if (row.expires_at <= Date.now()) {
+      await this.delete(key)
+      return undefined
+    }
+    return JSON.parse(row.value) as T
+  }
+
+  async set<T>(key: string, value: T, ttlSeconds: number): Promise<void> {
+    this.db
+      .prepare(
+        "INSERT INTO cache (key, value, expires_at) VALUES (?, ?, ?) " +
+          "ON CONFLICT(key) DO UPDATE SET value = excluded.value, expires_at = excluded.expires_at",
+      )
+      .run(key, JSON.stringify(value), Date.now() + ttlSeconds * 1000)
+  }
+
+  async delete(key: string): Promise<void> {
+    this.db.prepare("DELETE FROM cache WHERE key = ?").run(key)
+  }
+}
@@ -0,0 +1,123 @@
+import { createRequestCache, type CacheMetrics } from "@/lib/cache"
+import {
+  createRequestContext,
+  getFollowers,
+  getFollowing,
+  getUser,
+  toGitHubUser,
+  type GitHubApiError,
+  type RequestContext,
+} from "@/lib/github-api"
+import { resolveGitHubHost } from "@/lib/github-hosts"
+import type { GitHubUser } from "@/lib/github-schemas"
+import type { RateLimitInfo } from "@/lib/rate-limit"
+
+// How the networks of two accounts ("first" and "second") overlap, as logins
+export interface NetworkOverlap {
+  sharedFollowers: string[] // Follow both accounts
+  sharedFollowing: string[] // Followed by both accounts
+  followersOnlyFirst: string[] // Follow the first account but not the second
+  followersOnlySecond: string[] // Follow the second account but not the first
+}
+
+export interface CompareNetworksResult {
+  accounts?: [GitHubUser, GitHubUser]
+  overlap?: NetworkOverlap
+  firstFollowsSecond?: boolean
+  secondFollowsFirst?: boolean
+  error?: string
+  isRateLimitError?: boolean
+  isMalformedResponse?: boolean
+  rateLimit?: RateLimitInfo
+  cache?: CacheMetrics
+}
+
+export interface CompareNetworksOptions {
+  host?: string
+  forceRefresh?: boolean
+}
+
+interface Network {
+  profile: GitHubUser
+  followers: string[]
+  following: string[]
+}
+
+async function fetchNetwork(context: RequestContext, username: string): Promise<Network | GitHubApiError> {
+  const profile = await getUser(context, username)
+  if ("error" in profile) {
+    return profile.status === 404 ? { ...profile, error: `Could not find GitHub user: ${username}.` } : profile
+  }
+
+  const followers = await getFollowers(context, profile.login, undefined, profile.followers)
+  if ("error" in followers) {
+    return followers
+  }
+  const following = await getFollowing(context, profile.login, undefined, profile.following)
+  if ("error" in following) {
+    return following
+  }
+
+  return {
+    profile: toGitHubUser(profile),
+    followers: followers.map((user) => user.login),
+    following: following.map((user) => user.login),
+  }
+}
+
+// Logins of `a` that are (or, with `include` false, aren't) in `b`, compared case-insensitively
+function intersect(a: string[], b: string[], include = true): string[] {
+  const set = new Set(b.map((login) => login.toLowerCase()))
+  return a.filter((login) => set.has(login.toLowerCase()) === include)
+}
+
+function includesLogin(logins: string[], login: string): boolean {
+  return intersect(logins, [login]).length > 0
+}
+
+// Fetches both accounts' followers and following and reports where their audiences overlap
+export async function compareNetworks(
+  firstUsername: string,
+  secondUsername: string,
+  token?: string,
+  options: CompareNetworksOptions = {},
+): Promise<CompareNetworksResult> {
+  if (!firstUsername || !secondUsername) {
+    return { error: "Enter two usernames to compare." }
+  }
+  if (firstUsername.toLowerCase() === secondUsername.toLowerCase()) {
+    return { error: "Enter two different usernames to compare." }
+  }
+
+  const host = resolveGitHubHost(options.host)
+  if ("error" in host) {
+    return { error: host.error }
+  }
+
+  const context = createRequestContext(host, token, await createRequestCache(options.forceRefresh))
+  const stats = () => ({ rateLimit: context.rateLimit, cache: context.cache?.metrics })
+
+  const [first, second] = await Promise.all([
+    fetchNetwork(context, firstUsername),
+    fetchNetwork(context, secondUsername),
+  ])
+  if ("error" in first) {
+    return { ...first, ...stats() }
+  }
+  if ("error" in second) {
+    return { ...second, ...stats() }
+  }
+
+  return {
+    accounts: [first.profile, second.profile],
+    overlap: {
+      sharedFollowers: intersect(first.followers, second.followers),
+      sharedFollowing: intersect(first.following, second.following),
+      followersOnlyFirst: intersect(first.followers, second.followers, false),
+      followersOnlySecond: intersect(second.followers, first.followers, false),
+    },
+    firstFollowsSecond: includesLogin(first.following, second.profile.login),
+    secondFollowsFirst: includesLogin(second.following, first.profile.login),
+    ...stats(),
+  }
+}
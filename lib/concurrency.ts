@@ -0,0 +1,61 @@
+export interface MapWithConcurrencyOptions {
+  concurrency: number
+  shouldStop?: () => boolean // Checked before each item is scheduled; once true, remaining items are skipped
+}
+
+export interface MapWithConcurrencyResult<T, R> {
+  results: (R | undefined)[] // Same order as the input, undefined for skipped items
+  skipped: T[] // Items that were never scheduled
+}
+
+// Runs `mapper` over `items` with at most `concurrency` calls in flight, preserving input order in the results
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  mapper: (item: T, index: number) => Promise<R>,
+  { concurrency, shouldStop }: MapWithConcurrencyOptions,
+): Promise<MapWithConcurrencyResult<T, R>> {
+  const results: (R | undefined)[] = new Array(items.length).fill(undefined)
+  const skipped: T[] = []
+  let nextIndex = 0
+  let stopped = false
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      if (stopped || shouldStop?.()) {
+        stopped = true
+        return
+      }
+      const index = nextIndex++
+      results[index] = await mapper(items[index], index)
+    }
+  }
+
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency), items.length))
+  await Promise.all(Array.from({ length: workerCount }, worker))
+
+  // Anything left unclaimed when the workers stopped was skipped
+  for (let index = nextIndex; index < items.length; index++) {
+    skipped.push(items[index])
+  }
+
+  return { results, skipped }
+}
+
+const exclusiveTails = new Map<string, Promise<void>>()
+
+// Runs `task` once every earlier task queued under `key` in this process has settled. Keys are dropped once their
+// last task settles, so the map only holds work in flight.
+export function runExclusive<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const run = (exclusiveTails.get(key) ?? Promise.resolve()).then(task)
+  const tail = run.then(
+    () => undefined,
+    () => undefined,
+  )
+  exclusiveTails.set(key, tail)
+  void tail.then(() => {
+    if (exclusiveTails.get(key) === tail) {
+      exclusiveTails.delete(key)
+    }
+  })
+  return run
+}
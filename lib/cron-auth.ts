@@ -0,0 +1,17 @@
+import { timingSafeEqual } from "node:crypto"
+
+// Guards the operator-only routes (scheduled snapshots, webhook tools), which must be called with
+// `Authorization: Bearer <CRON_SECRET>`. Returns the error response to send, or undefined when authorized.
+export function checkCronSecret(request: Request): Response | undefined {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return Response.json({ error: "This route is disabled. Set CRON_SECRET to enable it." }, { status: 503 })
+  }
+
+  const provided = Buffer.from(request.headers.get("Authorization") ?? "")
+  const expected = Buffer.from(`Bearer ${secret}`)
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    return Response.json({ error: "Unauthorized." }, { status: 401 })
+  }
+  return undefined
+}
@@ -0,0 +1,167 @@
+import { createRequestCache } from "@/lib/cache"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { renderDigestHtml, renderDigestSubject, renderDigestText } from "@/lib/digest/render"
+import { createRequestContext, getUserDetails } from "@/lib/github-api"
+import { getServerToken, resolveGitHubHost } from "@/lib/github-hosts"
+import type { GitHubUser } from "@/lib/github-schemas"
+import { getMailFrom, getMailSender } from "@/lib/mail"
+import { getSnapshotStore, type FollowerSnapshot } from "@/lib/snapshots"
+import { diffSnapshots } from "@/lib/snapshots/diff"
+import { parseWatchlistEntry, type WatchlistEntry } from "@/lib/snapshots/watchlist"
+
+// A summary of how one account's relationships changed over the digest period
+export interface WeeklyDigest {
+  host: string
+  webUrl: string
+  username: string
+  periodStart: number // takenAt of the snapshot the changes are measured from
+  periodEnd: number // takenAt of the latest snapshot
+  followers: number
+  following: number
+  nonFollowers: number // Accounts followed that don't follow back, as of the latest snapshot
+  newFollowers: string[]
+  unfollowers: string[]
+  biggestGained: GitHubUser[] // New followers with the most followers of their own, largest first
+}
+
+export interface DigestSubscription extends WatchlistEntry {
+  recipients: string[]
+}
+
+export interface DigestDeliveryResult {
+  username: string
+  host?: string
+  recipients: string[]
+  status: "sent" | "failed"
+  error?: string
+}
+
+export const DIGEST_PERIOD_MS = 7 * 24 * 60 * 60 * 1000
+
+const BIGGEST_GAINED_COUNT = 5
+// New followers whose profiles are looked up to rank them; keeps a burst of followers from draining the budget
+const MAX_PROFILE_LOOKUPS = 30
+const PROFILE_LOOKUP_CONCURRENCY = 4
+
+// The newest snapshot taken at or before `since`, so the digest covers the whole period; falls back to the
+// oldest snapshot when history doesn't reach back that far
+function findBaseline(snapshots: FollowerSnapshot[], since: number): FollowerSnapshot {
+  const before = snapshots.filter((snapshot) => snapshot.takenAt <= since)
+  return before.length > 0 ? before[before.length - 1] : snapshots[0]
+}
+
+// Measures the week ending at `now` against the stored snapshots of `username`
+export async function buildWeeklyDigest(
+  username: string,
+  host?: string,
+  now = Date.now(),
+): Promise<WeeklyDigest | { error: string }> {
+  const resolvedHost = resolveGitHubHost(host)
+  if ("error" in resolvedHost) {
+    return { error: resolvedHost.error }
+  }
+
+  let snapshots: FollowerSnapshot[]
+  try {
+    snapshots = (await getSnapshotStore().list(resolvedHost.host, username)).filter(
+      (snapshot) => snapshot.takenAt <= now,
+    )
+  } catch (error) {
+    console.error("Failed to read follower snapshots:", error)
+    return { error: "Could not read stored snapshots." }
+  }
+
+  const latest = snapshots[snapshots.length - 1]
+  if (!latest) {
+    return { error: `No snapshots stored for ${username} yet.` }
+  }
+  const baseline = findBaseline(snapshots, now - DIGEST_PERIOD_MS)
+  const changes = diffSnapshots(baseline, latest)
+
+  const followers = new Set(latest.followers.map((login) => login.toLowerCase()))
+  const nonFollowers = latest.following.filter((login) => !followers.has(login.toLowerCase())).length
+
+  // Profiles come from the shared cache when a recent scan already fetched them
+  const context = createRequestContext(resolvedHost, getServerToken(resolvedHost), await createRequestCache(false))
+  const { results } = await mapWithConcurrency(
+    changes.newFollowers.slice(0, MAX_PROFILE_LOOKUPS),
+    (login) => getUserDetails(context, login),
+    { concurrency: PROFILE_LOOKUP_CONCURRENCY },
+  )
+  const biggestGained = results
+    .filter((user): user is GitHubUser => Boolean(user))
+    .sort((a, b) => (b.followers ?? 0) - (a.followers ?? 0))
+    .slice(0, BIGGEST_GAINED_COUNT)
+
+  return {
+    host: resolvedHost.host,
+    webUrl: resolvedHost.webUrl,
+    username: latest.username,
+    periodStart: baseline.takenAt,
+    periodEnd: latest.takenAt,
+    followers: latest.followers.length,
+    following: latest.following.length,
+    nonFollowers,
+    newFollowers: changes.newFollowers,
+    unfollowers: changes.unfollowers,
+    biggestGained,
+  }
+}
+
+// DIGEST_SUBSCRIPTIONS is a comma-separated list of `account=recipient` pairs, where the account uses the
+// SNAPSHOT_WATCHLIST syntax and several recipients are separated by semicolons,
+// e.g. `octocat=me@example.com;team@example.com,monalisa@github.example.com=mona@example.com`
+export function getDigestSubscriptions(): DigestSubscription[] {
+  const subscriptions: DigestSubscription[] = []
+  for (const entry of (process.env.DIGEST_SUBSCRIPTIONS || "").split(",")) {
+    const [account, recipients] = entry.split("=").map((part) => part.trim())
+    if (!account) {
+      continue
+    }
+    const addresses = (recipients ?? "")
+      .split(";")
+      .map((address) => address.trim())
+      .filter(Boolean)
+    if (addresses.length === 0) {
+      console.error(`Ignoring DIGEST_SUBSCRIPTIONS entry without recipients: ${account}`)
+      continue
+    }
+    subscriptions.push({ ...parseWatchlistEntry(account), recipients: addresses })
+  }
+  return subscriptions
+}
+
+// Builds and mails the digest of every subscription, one after another
+export async function sendWeeklyDigests(
+  subscriptions: DigestSubscription[] = getDigestSubscriptions(),
+): Promise<DigestDeliveryResult[] | { error: string }> {
+  const sender = getMailSender()
+  if (!sender) {
+    return { error: "Email is not configured. Set SMTP_URL to send digests." }
+  }
+
+  const results: DigestDeliveryResult[] = []
+  for (const { username, host, recipients } of subscriptions) {
+    const result: DigestDeliveryResult = { username, host, recipients, status: "failed" }
+    const digest = await buildWeeklyDigest(username, host)
+    if ("error" in digest) {
+      results.push({ ...result, error: digest.error })
+      continue
+    }
+
+    try {
+      await sender.send({
+        from: getMailFrom(),
+        to: recipients,
+        subject: renderDigestSubject(digest),
+        text: renderDigestText(digest),
+        html: renderDigestHtml(digest),
+      })
+      results.push({ ...result, host: digest.host, status: "sent" })
+    } catch (error) {
+      console.error(`Failed to send the digest for ${username}:`, error)
+      results.push({ ...result, error: error instanceof Error ? error.message : "Failed to send the digest." })
+    }
+  }
+  return results
+}
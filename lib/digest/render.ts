@@ -0,0 +1,160 @@
+import type { WeeklyDigest } from "@/lib/digest"
+import type { GitHubUser } from "@/lib/github-schemas"
+
+// Logins listed per section before the rest are summarized as "and N more"
+const MAX_LISTED_LOGINS = 30
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+}
+
+function plural(count: number, singular: string, pluralForm = `${singular}s`): string {
+  return `${count} ${count === 1 ? singular : pluralForm}`
+}
+
+export function renderDigestSubject(digest: WeeklyDigest): string {
+  const parts = [plural(digest.newFollowers.length, "new follower"), plural(digest.unfollowers.length, "unfollow")]
+  return `${digest.username}'s week on GitHub: ${parts.join(", ")}`
+}
+
+function describePeriod(digest: WeeklyDigest): string {
+  return `${formatDate(digest.periodStart)} – ${formatDate(digest.periodEnd)}`
+}
+
+function summaryLines(digest: WeeklyDigest): string[] {
+  return [
+    `Followers: ${digest.followers}`,
+    `Following: ${digest.following}`,
+    `Not following back: ${digest.nonFollowers}`,
+  ]
+}
+
+function listedLogins(logins: string[]): { shown: string[]; hidden: number } {
+  return { shown: logins.slice(0, MAX_LISTED_LOGINS), hidden: Math.max(0, logins.length - MAX_LISTED_LOGINS) }
+}
+
+export function renderDigestText(digest: WeeklyDigest): string {
+  const lines = [
+    `Weekly follower digest for ${digest.username} on ${digest.host}`,
+    describePeriod(digest),
+    "",
+    ...summaryLines(digest),
+  ]
+
+  const section = (title: string, logins: string[]) => {
+    const { shown, hidden } = listedLogins(logins)
+    lines.push("", `${title} (${logins.length})`)
+    if (logins.length === 0) {
+      lines.push("  Nobody.")
+    }
+    shown.forEach((login) => lines.push(`  - ${login}  ${digest.webUrl}/${login}`))
+    if (hidden > 0) {
+      lines.push(`  …and ${hidden} more`)
+    }
+  }
+  section("New followers", digest.newFollowers)
+  section("Unfollowed you", digest.unfollowers)
+
+  if (digest.biggestGained.length > 0) {
+    lines.push("", "Biggest accounts gained")
+    digest.biggestGained.forEach((user) =>
+      lines.push(`  - ${user.login} (${plural(user.followers ?? 0, "follower")})  ${user.html_url}`),
+    )
+  }
+  return `${lines.join("\n")}\n`
+}
+
+// Email clients ignore stylesheets and Tailwind, so the result grid's card look (round avatar over the login and
+// follower/following/repo counts) is rebuilt here with tables and inline styles
+function renderUserCard(user: GitHubUser): string {
+  const stats = [
+    user.followers !== undefined && `${user.followers} Followers`,
+    user.following !== undefined && `${user.following} Following`,
+    user.public_repos !== undefined && `${user.public_repos} Repos`,
+  ].filter((stat): stat is string => Boolean(stat))
+
+  return `<td width="50%" valign="top" style="padding:6px;">
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="border:1px solid #e5e7eb;border-radius:12px;">
+    <tr><td align="center" style="padding:12px;">
+      <img src="${escapeHtml(user.avatar_url)}" width="64" height="64" alt="${escapeHtml(user.login)}'s avatar" style="border-radius:50%;display:block;">
+      <a href="${escapeHtml(user.html_url)}" style="display:block;margin-top:10px;font-size:18px;font-weight:600;color:#111827;text-decoration:none;">${escapeHtml(user.login)}</a>
+      <p style="margin:6px 0 0;font-size:13px;color:#6b7280;">${stats.map(escapeHtml).join(" &middot; ")}</p>
+    </td></tr>
+  </table>
+</td>`
+}
+
+function renderUserGrid(users: GitHubUser[]): string {
+  const rows: string[] = []
+  for (let index = 0; index < users.length; index += 2) {
+    const cells = users.slice(index, index + 2).map(renderUserCard)
+    if (cells.length === 1) {
+      cells.push('<td width="50%"></td>')
+    }
+    rows.push(`<tr>${cells.join("")}</tr>`)
+  }
+  return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0">${rows.join("")}</table>`
+}
+
+// Followers without a looked-up profile only have a login, so they're shown as compact avatar rows
+function renderLoginList(logins: string[], webUrl: string): string {
+  if (logins.length === 0) {
+    return '<p style="margin:0;font-size:14px;color:#6b7280;">Nobody.</p>'
+  }
+  const { shown, hidden } = listedLogins(logins)
+  const rows = shown.map((login) => {
+    const profileUrl = escapeHtml(`${webUrl}/${login}`)
+    return `<tr>
+  <td width="40" style="padding:4px 0;"><img src="${profileUrl}.png?size=64" width="32" height="32" alt="" style="border-radius:50%;display:block;"></td>
+  <td style="padding:4px 0;font-size:14px;"><a href="${profileUrl}" style="color:#111827;font-weight:500;text-decoration:none;">${escapeHtml(login)}</a></td>
+</tr>`
+  })
+  const more = hidden > 0 ? `<p style="margin:4px 0 0;font-size:13px;color:#6b7280;">…and ${hidden} more</p>` : ""
+  return `<table role="presentation" cellpadding="0" cellspacing="0">${rows.join("")}</table>${more}`
+}
+
+function renderSection(title: string, body: string): string {
+  return `<h2 style="margin:24px 0 8px;font-size:16px;color:#111827;">${escapeHtml(title)}</h2>${body}`
+}
+
+export function renderDigestHtml(digest: WeeklyDigest): string {
+  const profileUrl = escapeHtml(`${digest.webUrl}/${digest.username}`)
+  const summary = summaryLines(digest)
+    .map((line) => `<td align="center" style="padding:8px;font-size:14px;color:#374151;">${escapeHtml(line)}</td>`)
+    .join("")
+
+  const sections = [
+    renderSection(`New followers (${digest.newFollowers.length})`, renderLoginList(digest.newFollowers, digest.webUrl)),
+    renderSection(`Unfollowed you (${digest.unfollowers.length})`, renderLoginList(digest.unfollowers, digest.webUrl)),
+  ]
+  if (digest.biggestGained.length > 0) {
+    sections.push(renderSection("Biggest accounts gained", renderUserGrid(digest.biggestGained)))
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width"><title>${escapeHtml(renderDigestSubject(digest))}</title></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Helvetica,Arial,sans-serif;">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0"><tr><td align="center">
+<table role="presentation" width="600" cellpadding="0" cellspacing="0" style="max-width:600px;background:#ffffff;border:1px solid #e5e7eb;border-radius:12px;">
+<tr><td style="padding:24px;">
+  <h1 style="margin:0;font-size:22px;text-align:center;color:#111827;">Weekly follower digest for <a href="${profileUrl}" style="color:#111827;">${escapeHtml(digest.username)}</a></h1>
+  <p style="margin:6px 0 16px;text-align:center;font-size:14px;color:#6b7280;">${escapeHtml(describePeriod(digest))} on ${escapeHtml(digest.host)}</p>
+  <table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f9fafb;border-radius:8px;"><tr>${summary}</tr></table>
+  ${sections.join("\n  ")}
+</td></tr>
+</table>
+</td></tr></table>
+</body>
+</html>
+`
+}
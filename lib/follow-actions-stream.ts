@@ -0,0 +1,59 @@
+import type { FollowActionResult, FollowBatchEvent, FollowBatchResult } from "@/lib/follow-actions"
+import { readNdjson } from "@/lib/ndjson"
+
+export interface BulkUnfollowRequest {
+  logins: string[]
+  token?: string
+  host?: string
+  dryRun?: boolean
+  expectedActor?: string // The scanned account; the server refuses tokens of anyone else
+}
+
+export interface UndoRequest {
+  batchId: string
+  token?: string
+}
+
+// Posts a batch to one of the streaming follow routes, calling `onAccount` as each account is handled.
+// Resolves with the final result, or an error result if the stream ends without one.
+async function streamFollowBatch(
+  url: string,
+  request: BulkUnfollowRequest | UndoRequest,
+  onAccount: (result: FollowActionResult) => void,
+): Promise<FollowBatchResult> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  })
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}))
+    return { error: errorData.error || `The batch failed with status ${response.status}.` }
+  }
+
+  let result: FollowBatchResult | null = null
+  await readNdjson<FollowBatchEvent>(response.body, (event) => {
+    if (event.type === "result") {
+      result = event.result
+    } else {
+      onAccount(event.result)
+    }
+  })
+
+  return result ?? { error: "The batch ended unexpectedly. Check the journal before retrying." }
+}
+
+export async function streamBulkUnfollow(
+  request: BulkUnfollowRequest,
+  onAccount: (result: FollowActionResult) => void,
+): Promise<FollowBatchResult> {
+  return streamFollowBatch("/api/unfollow", request, onAccount)
+}
+
+export async function streamUndo(
+  request: UndoRequest,
+  onAccount: (result: FollowActionResult) => void,
+): Promise<FollowBatchResult> {
+  return streamFollowBatch("/api/journal/undo", request, onAccount)
+}
@@ -0,0 +1,498 @@
+import { randomUUID } from "node:crypto"
+
+import { runExclusive } from "@/lib/concurrency"
+import { DAILY_FOLLOW_CAP, FOLLOW_INTERVAL_MS } from "@/lib/follow-limits"
+import {
+  createRequestContext,
+  followUser,
+  getTokenOwner,
+  unfollowUser,
+  type GitHubApiError,
+  type RequestContext,
+} from "@/lib/github-api"
+import { resolveGitHubHost, type GitHubHost } from "@/lib/github-hosts"
+import {
+  appendJournalEntry,
+  fingerprintToken,
+  groupJournalBatches,
+  INVERSE_ACTIONS,
+  readJournal,
+  type JournalAction,
+  type JournalBatch,
+  type JournalEntry,
+} from "@/lib/journal"
+import type { RateLimitInfo } from "@/lib/rate-limit"
+import { describeToken, describeTokenError, type TokenInspection } from "@/lib/token-inspection"
+
+export type FollowActionStatus =
+  | "followed"
+  | "unfollowed"
+  | "would-follow" // Dry run: nothing was sent to GitHub
+  | "would-unfollow"
+  | "failed"
+  | "skipped" // Never attempted because an earlier error stopped the batch
+
+export interface FollowActionResult {
+  login: string
+  status: FollowActionStatus
+  error?: string
+  stopsBatch?: boolean // The error would fail every further request the same way, e.g. a bad token
+  followedToday?: number // Follow-back only: follows the token's owner has made on the host today (UTC)
+}
+
+export interface FollowBatchResult {
+  results?: FollowActionResult[] // Same order as the requested logins
+  batchId?: string // Journal batch the requests were recorded under
+  dryRun?: boolean
+  estimatedSeconds?: number // How long the real run is expected to take, given the throttle
+  tokenInspection?: TokenInspection // Who the batch runs as; dry runs without a token leave it out
+  error?: string // Set when the batch couldn't start, or stopped early
+  isRateLimitError?: boolean
+  rateLimit?: RateLimitInfo
+}
+
+export interface FollowBatchOptions {
+  host?: string
+  dryRun?: boolean
+  intervalMs?: number // Pause between requests, defaults to FOLLOW_BATCH_INTERVAL_MS
+  undoOf?: string // Journal batch this one reverses
+  expectedActor?: string // Refuse to run unless the token belongs to this account, e.g. the scanned one
+  onResult?: (result: FollowActionResult) => void // Called as each account is handled
+}
+
+// Events emitted by the streaming unfollow and undo routes, one JSON object per line
+export type FollowBatchEvent =
+  | { type: "account"; result: FollowActionResult }
+  | { type: "result"; result: FollowBatchResult }
+
+export interface JournalResult {
+  actor?: string
+  batches?: JournalBatch[] // The token owner's batches on the host, newest first
+  error?: string
+}
+
+// GitHub asks for at least a second between mutating requests from one user; going faster risks its
+// secondary rate limit (abuse detection), which can lock the account out of following for a while
+export const FOLLOW_BATCH_INTERVAL_MS = 1000
+export const MAX_BULK_UNFOLLOW = 100
+
+const DONE_STATUSES: Record<JournalAction, FollowActionStatus> = { follow: "followed", unfollow: "unfollowed" }
+const DRY_RUN_STATUSES: Record<JournalAction, FollowActionStatus> = {
+  follow: "would-follow",
+  unfollow: "would-unfollow",
+}
+
+const INSPECTION_TTL_MS = 5 * 60 * 1000
+const MAX_CACHED_INSPECTIONS = 1000
+
+// Token inspections, keyed by host and token fingerprint, so a follow-back queue doesn't look itself up before
+// every follow. Tokens that can't follow aren't kept, so granting the scope takes effect on the next try, and
+// tokens GitHub rejects are dropped, so a revoked token stops working on its next request rather than at expiry.
+const inspectionCache = new Map<string, { inspection: TokenInspection; expiresAt: number }>()
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+function stopsBatch(error: GitHubApiError): boolean {
+  return !!error.isRateLimitError || error.status === 401 || error.status === 403 || error.status === 429
+}
+
+// GitHub hides accounts a token may not act on behind 404s, so a missing scope looks like a missing user
+function describeFailure(error: GitHubApiError): string {
+  return error.status === 404
+    ? `${error.error}. The account may be gone, or the token lacks the user:follow scope.`
+    : error.error
+}
+
+const inspectionKey = (context: RequestContext, token: string) => `${context.host.host}:${fingerprintToken(token)}`
+
+// Who the token belongs to, for the journal, and whether it may follow at all. `useCache` is off where the token
+// is the only proof of who's asking, so a revoked token can't keep passing.
+async function inspectActor(
+  context: RequestContext,
+  token: string,
+  useCache = true,
+): Promise<TokenInspection | GitHubApiError> {
+  const key = inspectionKey(context, token)
+  const cachedInspection = inspectionCache.get(key)
+  if (useCache && cachedInspection && cachedInspection.expiresAt > Date.now()) {
+    return cachedInspection.inspection
+  }
+  inspectionCache.delete(key)
+
+  const owner = await getTokenOwner(context)
+  if ("error" in owner) {
+    return { ...owner, error: describeTokenError(owner) }
+  }
+  const inspection = describeToken(token, context.host.host, owner)
+  if (inspection.capabilities.follow.status !== "no") {
+    inspectionCache.set(key, { inspection, expiresAt: Date.now() + INSPECTION_TTL_MS })
+    if (inspectionCache.size > MAX_CACHED_INSPECTIONS) {
+      const [oldest] = inspectionCache.keys() // Maps iterate in insertion order
+      inspectionCache.delete(oldest)
+    }
+  }
+  return inspection
+}
+
+// Follows are rationed per actor and host: every path that follows (the follow-back queue, undoing an unfollow
+// batch) takes this lock, counts the journal's follows and keeps FOLLOW_INTERVAL_MS after the last one
+const followLockKey = (host: string, actor: string) => `follow:${host}:${actor.toLowerCase()}`
+
+async function readFollows(host: string, actor: string): Promise<JournalEntry[]> {
+  return (await readJournal()).filter(
+    (entry) => entry.action === "follow" && entry.host === host && entry.actor.toLowerCase() === actor.toLowerCase(),
+  )
+}
+
+function countFollowedToday(follows: JournalEntry[]): number {
+  const startOfDay = new Date().setUTCHours(0, 0, 0, 0)
+  return follows.filter((entry) => entry.status === "succeeded" && entry.at >= startOfDay).length
+}
+
+async function waitForFollowSpacing(follows: JournalEntry[]): Promise<void> {
+  const wait = Math.max(0, ...follows.map((entry) => entry.at)) + FOLLOW_INTERVAL_MS - Date.now()
+  if (wait > 0) {
+    await sleep(wait)
+  }
+}
+
+function describeMissingCapability(inspection: TokenInspection, action: JournalAction): string | undefined {
+  const { status, detail } = inspection.capabilities.follow
+  return status === "no" ? `${inspection.login}'s token can't ${action}. ${detail}` : undefined
+}
+
+// Writes act as the token's owner, so a token pasted for the wrong account would (un)follow from that account
+function describeWrongActor(inspection: TokenInspection, expectedActor: string | undefined): string | undefined {
+  return expectedActor && inspection.login.toLowerCase() !== expectedActor.toLowerCase()
+    ? `This token belongs to ${inspection.login}, not ${expectedActor}.`
+    : undefined
+}
+
+// Sends one follow or unfollow and records it in the journal. Journal writes are best-effort: the request
+// already happened, so failing it afterwards would only hide that.
+async function sendFollowAction(
+  context: RequestContext,
+  action: JournalAction,
+  login: string,
+  journal: { batchId: string; actor: string; tokenFingerprint: string; undoOf?: string },
+): Promise<FollowActionResult> {
+  const response = action === "follow" ? await followUser(context, login) : await unfollowUser(context, login)
+  if ("error" in response && (response.status === 401 || response.status === 403) && context.token) {
+    inspectionCache.delete(inspectionKey(context, context.token)) // Revoked, or lost the scope since
+  }
+  const result: FollowActionResult =
+    "error" in response
+      ? { login, status: "failed", error: describeFailure(response), stopsBatch: stopsBatch(response) }
+      : { login, status: DONE_STATUSES[action] }
+
+  try {
+    await appendJournalEntry({
+      id: randomUUID(),
+      ...journal,
+      action,
+      target: login,
+      host: context.host.host,
+      status: result.status === "failed" ? "failed" : "succeeded",
+      error: result.error,
+      at: Date.now(),
+    })
+  } catch (error) {
+    console.error("Failed to record a follow action in the journal:", error)
+  }
+  return result
+}
+
+// Follows or unfollows `logins` one at a time as the owner of `token`, pausing between requests, and records
+// every request under one journal batch. A dry run reports what would happen without calling GitHub.
+export async function runFollowBatch(
+  action: JournalAction,
+  logins: string[],
+  token: string | undefined,
+  options: FollowBatchOptions = {},
+): Promise<FollowBatchResult> {
+  const unique = logins.filter(
+    (login, index) => login && logins.findIndex((other) => other.toLowerCase() === login.toLowerCase()) === index,
+  )
+  if (unique.length === 0) {
+    return { error: `Select at least one account to ${action}.` }
+  }
+
+  const host = resolveGitHubHost(options.host)
+  if ("error" in host) {
+    return { error: host.error }
+  }
+
+  const intervalMs = Math.max(options.intervalMs ?? FOLLOW_BATCH_INTERVAL_MS, 0)
+  const estimatedSeconds = Math.ceil(((unique.length - 1) * intervalMs) / 1000)
+
+  const previewResults = () => {
+    const results = unique.map((login): FollowActionResult => ({ login, status: DRY_RUN_STATUSES[action] }))
+    results.forEach((result) => options.onResult?.(result))
+    return results
+  }
+  if (options.dryRun && !token) {
+    return { results: previewResults(), dryRun: true, estimatedSeconds }
+  }
+  if (!token) {
+    return { error: `${action === "follow" ? "Following" : "Unfollowing"} needs a token with the user:follow scope.` }
+  }
+
+  // Checked before anything is sent, so a token without the scope fails once instead of once per account
+  const context = createRequestContext(host, token)
+  const inspection = await inspectActor(context, token)
+  if ("error" in inspection) {
+    return { ...inspection, rateLimit: context.rateLimit }
+  }
+  const missingCapability =
+    describeWrongActor(inspection, options.expectedActor) ?? describeMissingCapability(inspection, action)
+  if (options.dryRun) {
+    return {
+      results: previewResults(),
+      dryRun: true,
+      estimatedSeconds,
+      tokenInspection: inspection,
+      error: missingCapability,
+      rateLimit: context.rateLimit,
+    }
+  }
+  if (missingCapability) {
+    return { error: missingCapability, tokenInspection: inspection, rateLimit: context.rateLimit }
+  }
+
+  const journal = {
+    batchId: randomUUID(),
+    actor: inspection.login,
+    tokenFingerprint: fingerprintToken(token),
+    undoOf: options.undoOf,
+  }
+  const results: FollowActionResult[] = []
+  let stopError: string | undefined
+
+  for (const [index, login] of unique.entries()) {
+    let result: FollowActionResult
+    if (stopError) {
+      result = { login, status: "skipped", error: stopError }
+    } else {
+      if (index > 0) {
+        await sleep(intervalMs)
+      }
+      result = await sendFollowAction(context, action, login, journal)
+      if (result.stopsBatch) {
+        stopError = result.error
+      }
+    }
+    results.push(result)
+    options.onResult?.(result)
+  }
+
+  return {
+    results,
+    batchId: journal.batchId,
+    estimatedSeconds,
+    tokenInspection: inspection,
+    error: stopError ? `Stopped early: ${stopError}` : undefined,
+    rateLimit: context.rateLimit,
+  }
+}
+
+export async function bulkUnfollow(
+  logins: string[],
+  token: string | undefined,
+  options: FollowBatchOptions = {},
+): Promise<FollowBatchResult> {
+  if (logins.length > MAX_BULK_UNFOLLOW) {
+    return { error: `Unfollow at most ${MAX_BULK_UNFOLLOW} accounts at a time.` }
+  }
+  return runFollowBatch("unfollow", logins, token, options)
+}
+
+// Follows a single account as the owner of `token`, recorded under `batchId`. The follow-back queue calls this
+// once per account, so progress survives the tab being closed between requests. The daily cap and the spacing
+// between follows are checked against the journal, one request per actor at a time, so two tabs working through
+// the same queue take turns instead of following in bursts or following the same account twice.
+export async function followBack(
+  login: string,
+  token: string | undefined,
+  options: { host?: string; batchId?: string; expectedActor?: string } = {},
+): Promise<FollowActionResult> {
+  if (!login) {
+    return { login, status: "failed", error: "Username cannot be empty." }
+  }
+  if (!token) {
+    return { login, status: "failed", error: "Following needs a token with the user:follow scope.", stopsBatch: true }
+  }
+
+  const host = resolveGitHubHost(options.host)
+  if ("error" in host) {
+    return { login, status: "failed", error: host.error, stopsBatch: true }
+  }
+
+  const context = createRequestContext(host, token)
+  const inspection = await inspectActor(context, token)
+  if ("error" in inspection) {
+    return { login, status: "failed", error: inspection.error, stopsBatch: stopsBatch(inspection) }
+  }
+  const missingCapability =
+    describeWrongActor(inspection, options.expectedActor) ?? describeMissingCapability(inspection, "follow")
+  if (missingCapability) {
+    return { login, status: "failed", error: missingCapability, stopsBatch: true }
+  }
+
+  const actor = inspection.login
+  const batchId = options.batchId || randomUUID()
+  return runExclusive(followLockKey(host.host, actor), async () => {
+    let follows: JournalEntry[]
+    try {
+      follows = await readFollows(host.host, actor)
+    } catch (error) {
+      console.error("Failed to read the journal before following:", error)
+      return { login, status: "failed", error: "Couldn't check today's follows. Try again later.", stopsBatch: true }
+    }
+
+    const followedToday = countFollowedToday(follows)
+    const alreadyFollowed = follows.some(
+      (entry) =>
+        entry.batchId === batchId && entry.status === "succeeded" && entry.target.toLowerCase() === login.toLowerCase(),
+    )
+    if (alreadyFollowed) {
+      return { login, status: "followed", followedToday }
+    }
+    if (followedToday >= DAILY_FOLLOW_CAP) {
+      return {
+        login,
+        status: "failed",
+        error: `Reached today's cap of ${DAILY_FOLLOW_CAP} follows. The rest stay queued for tomorrow.`,
+        stopsBatch: true,
+        followedToday,
+      }
+    }
+
+    await waitForFollowSpacing(follows)
+    const result = await sendFollowAction(context, "follow", login, {
+      batchId,
+      actor,
+      tokenFingerprint: fingerprintToken(token),
+    })
+    return { ...result, followedToday: followedToday + (result.status === "followed" ? 1 : 0) }
+  })
+}
+
+// The journal batches of the token's owner on `host`; the token doubles as proof of who's asking
+export async function loadJournal(token: string | undefined, host?: string): Promise<JournalResult> {
+  if (!token) {
+    return { error: "Enter the token you used to see its journal." }
+  }
+  const resolvedHost = resolveGitHubHost(host)
+  if ("error" in resolvedHost) {
+    return { error: resolvedHost.error }
+  }
+
+  const inspection = await inspectActor(createRequestContext(resolvedHost, token), token, false)
+  if ("error" in inspection) {
+    return { error: inspection.error }
+  }
+  const actor = inspection.login
+
+  const batches = groupJournalBatches(await readJournal()).filter(
+    (batch) => batch.host === resolvedHost.host && batch.actor.toLowerCase() === actor.toLowerCase(),
+  )
+  return { actor, batches }
+}
+
+// The batch `batchId` of `actor` on `host`; other actors' batches may share the id
+async function findBatch(batchId: string, host: string, actor: string): Promise<JournalBatch | undefined> {
+  return groupJournalBatches(await readJournal()).find(
+    (batch) => batch.batchId === batchId && batch.host === host && batch.actor.toLowerCase() === actor.toLowerCase(),
+  )
+}
+
+// Replays the inverse of every request that succeeded in `batchId`: unfollows become follows and vice versa.
+// Only the batch's actor can undo it, and only once: undos of one batch run one at a time, each re-reading the
+// journal, so a second click or tab finds the batch already undone.
+export async function undoFollowBatch(
+  batchId: string,
+  token: string | undefined,
+  options: Omit<FollowBatchOptions, "host" | "undoOf"> = {},
+): Promise<FollowBatchResult> {
+  const candidates = groupJournalBatches(await readJournal()).filter((candidate) => candidate.batchId === batchId)
+  if (candidates.length === 0) {
+    return { error: "That batch isn't in the journal." }
+  }
+  if (!token) {
+    return { error: `Undoing needs a token for ${candidates[0].actor} with the user:follow scope.` }
+  }
+
+  // The token's owner on each host the id appears on decides which of the batches, if any, is theirs
+  let owned: { host: GitHubHost; actor: string } | undefined
+  for (const candidateHost of new Set(candidates.map((candidate) => candidate.host))) {
+    const host = resolveGitHubHost(candidateHost)
+    if ("error" in host) {
+      return { error: host.error }
+    }
+    const inspection = await inspectActor(createRequestContext(host, token), token)
+    if ("error" in inspection) {
+      return { error: inspection.error }
+    }
+    const actor = inspection.login.toLowerCase()
+    if (candidates.some((candidate) => candidate.host === candidateHost && candidate.actor.toLowerCase() === actor)) {
+      owned = { host, actor: inspection.login }
+      break
+    }
+  }
+  if (!owned) {
+    return { error: `That batch was run by ${candidates[0].actor}; undo it with one of their tokens.` }
+  }
+  const { host, actor } = owned
+
+  return runExclusive(`undo:${host.host}:${actor.toLowerCase()}:${batchId}`, async () => {
+    const batch = await findBatch(batchId, host.host, actor)
+    if (!batch) {
+      return { error: "That batch isn't in the journal." }
+    }
+    if (batch.undoneBy) {
+      return { error: "That batch has already been undone." }
+    }
+
+    const targets = batch.entries
+      .filter(
+        (entry) =>
+          entry.status === "succeeded" &&
+          entry.action === batch.action &&
+          entry.host === host.host &&
+          entry.actor.toLowerCase() === actor.toLowerCase(),
+      )
+      .map((entry) => entry.target)
+    if (targets.length === 0) {
+      return { error: "Nothing in that batch succeeded, so there's nothing to undo." }
+    }
+    if (INVERSE_ACTIONS[batch.action] === "unfollow") {
+      return runFollowBatch("unfollow", targets, token, { ...options, host: batch.host, undoOf: batchId })
+    }
+
+    // Re-following counts against the daily cap and keeps the follow-back spacing, like any other follow
+    return runExclusive(followLockKey(host.host, actor), async () => {
+      let follows: JournalEntry[]
+      try {
+        follows = await readFollows(host.host, actor)
+      } catch (error) {
+        console.error("Failed to read the journal before following:", error)
+        return { error: "Couldn't check today's follows. Try again later." }
+      }
+      const remaining = DAILY_FOLLOW_CAP - countFollowedToday(follows)
+      if (targets.length > remaining) {
+        return {
+          error:
+            `Undoing this batch follows ${targets.length} accounts, but only ${Math.max(remaining, 0)} of today's ` +
+            `${DAILY_FOLLOW_CAP} follows are left. Try again tomorrow.`,
+        }
+      }
+      await waitForFollowSpacing(follows)
+      return runFollowBatch("follow", targets, token, {
+        ...options,
+        host: batch.host,
+        undoOf: batchId,
+        intervalMs: Math.max(options.intervalMs ?? 0, FOLLOW_INTERVAL_MS),
+      })
+    })
+  })
+}
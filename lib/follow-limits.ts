@@ -0,0 +1,5 @@
+// Following in bursts is what GitHub's abuse detection looks for, so the follow-back queue spaces requests well
+// past the one-second minimum for mutating requests and stops for the day after DAILY_FOLLOW_CAP follows. The
+// server enforces both; the queue uses them to pace itself and to show what's left.
+export const FOLLOW_INTERVAL_MS = 3000
+export const DAILY_FOLLOW_CAP = 100
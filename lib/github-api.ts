@@ -0,0 +1,390 @@
+import type { z } from "zod"
+
+import { cached, CACHE_TTL_SECONDS, readCached, writeCached, type RequestCache } from "@/lib/cache"
+import type { GitHubHost } from "@/lib/github-hosts"
+import {
+  describeSchemaIssues,
+  simpleUserListSchema,
+  userSchema,
+  type GitHubUser,
+  type SimpleUser,
+  type User,
+} from "@/lib/github-schemas"
+import { fingerprintToken } from "@/lib/journal"
+import {
+  estimateTotalPages,
+  getPageNumber,
+  parseLinkHeader,
+  type PageLimits,
+  type PageProgress,
+} from "@/lib/pagination"
+import { updateRateLimitFromHeaders, type RateLimitInfo } from "@/lib/rate-limit"
+import { createRetryStats, fetchWithRetry, isSecondaryRateLimit, type RetryStats } from "@/lib/retry"
+
+export type GitHubApiError = {
+  error: string
+  isRateLimitError?: boolean
+  isMalformedResponse?: boolean // GitHub answered, but the payload didn't match the expected schema
+  status?: number // HTTP status, when GitHub answered with an error
+}
+
+// Per-scan state shared by every request the scan makes: where and as whom to call GitHub, and bookkeeping
+export interface RequestContext {
+  host: GitHubHost
+  token?: string
+  rateLimit: RateLimitInfo
+  retries: RetryStats
+  cache?: RequestCache // Without one, every call goes to GitHub
+  listsFetchedAt?: number // When GitHub returned the oldest list read so far, which may have come from the cache
+}
+
+// Lists are cached with the time GitHub returned them, so a snapshot taken from a cached list keeps that time
+interface CachedList {
+  users: SimpleUser[]
+  fetchedAt: number // Unix epoch milliseconds
+}
+
+const PER_PAGE = 100
+
+export function createRequestContext(host: GitHubHost, token?: string, cache?: RequestCache): RequestContext {
+  return { host, token, rateLimit: {}, retries: createRetryStats(), cache }
+}
+
+// Cache keys are scoped by host so github.com and Enterprise Server accounts with the same login don't collide
+export function cacheKey(
+  context: RequestContext,
+  kind: "user" | "followers" | "following" | "members",
+  login: string,
+): string {
+  const key = `${context.host.host}:${kind}:${login.toLowerCase()}`
+  // Members who hid their membership are only listed for members' tokens, so those lists are kept per token
+  return kind === "members" && context.token ? `${key}:${fingerprintToken(context.token)}` : key
+}
+
+function malformedResponse(path: string, detail: string): GitHubApiError {
+  console.error(`Malformed GitHub API response for ${path}: ${detail}`)
+  return {
+    error: `GitHub returned an unexpected response for ${path}.`,
+    isRateLimitError: false,
+    isMalformedResponse: true,
+  }
+}
+
+function requestHeaders(context: RequestContext): HeadersInit {
+  const headers: HeadersInit = {
+    "X-GitHub-Api-Version": "2022-11-28",
+    Accept: "application/vnd.github+json",
+  }
+  if (context.token) {
+    headers.Authorization = `Bearer ${context.token}`
+  }
+  return headers
+}
+
+// Rate-limit errors share one shape whatever the request; anything else is left to the caller
+async function checkRateLimitResponse(response: Response): Promise<GitHubApiError | undefined> {
+  if (
+    (response.status === 403 || response.status === 429) &&
+    response.headers.get("X-RateLimit-Remaining") === "0"
+  ) {
+    return {
+      error: "GitHub API rate limit exceeded. Please provide a Personal Access Token.",
+      isRateLimitError: true,
+      status: response.status,
+    }
+  }
+
+  if (await isSecondaryRateLimit(response)) {
+    return {
+      error: "GitHub's secondary rate limit was triggered. Please wait a few minutes and try again.",
+      isRateLimitError: false,
+      status: response.status,
+    }
+  }
+  return undefined
+}
+
+async function fetchGitHubResponse(
+  context: RequestContext,
+  path: string,
+  page = 1,
+  per_page = PER_PAGE,
+): Promise<{ data: unknown; headers: Headers } | GitHubApiError> {
+  const url = `${context.host.apiBaseUrl}${path}?page=${page}&per_page=${per_page}`
+
+  let response: Response
+  try {
+    // Caching happens in lib/cache with explicit TTLs, not in Next's fetch cache
+    response = await fetchWithRetry(url, { headers: requestHeaders(context), cache: "no-store" }, context.retries)
+  } catch (error) {
+    console.error("Error fetching from GitHub API:", error)
+    return { error: "Failed to connect to GitHub API.", isRateLimitError: false }
+  }
+
+  updateRateLimitFromHeaders(context.rateLimit, response.headers)
+
+  const rateLimitError = await checkRateLimitResponse(response)
+  if (rateLimitError) {
+    return rateLimitError
+  }
+
+  // Proxies in front of GitHub answer 502s and 504s with HTML, so error bodies needn't be JSON
+  if (!response.ok) {
+    const body: unknown = await response.json().catch(() => null)
+    const message = (body as { message?: unknown } | null)?.message
+    return {
+      error: typeof message === "string" ? message : `GitHub API error: ${response.status}`,
+      isRateLimitError: false,
+      status: response.status,
+    }
+  }
+
+  let data: unknown
+  try {
+    data = await response.json()
+  } catch {
+    return malformedResponse(path, `status ${response.status} with a non-JSON body`)
+  }
+
+  return { data, headers: response.headers }
+}
+
+// Sends a request that changes state on GitHub and expects an empty 204 reply, e.g. following or unfollowing.
+// Both are idempotent, so fetchWithRetry may safely repeat them.
+async function sendGitHubMutation(
+  context: RequestContext,
+  method: "PUT" | "DELETE",
+  path: string,
+): Promise<{ status: number } | GitHubApiError> {
+  let response: Response
+  try {
+    response = await fetchWithRetry(
+      `${context.host.apiBaseUrl}${path}`,
+      { method, headers: requestHeaders(context), cache: "no-store" },
+      context.retries,
+    )
+  } catch (error) {
+    console.error(`Error sending ${method} ${path} to GitHub API:`, error)
+    return { error: "Failed to connect to GitHub API.", isRateLimitError: false }
+  }
+
+  updateRateLimitFromHeaders(context.rateLimit, response.headers)
+
+  const rateLimitError = await checkRateLimitResponse(response)
+  if (rateLimitError) {
+    return rateLimitError
+  }
+
+  if (!response.ok) {
+    const body: unknown = await response.json().catch(() => null)
+    const message = (body as { message?: unknown } | null)?.message
+    return {
+      error: typeof message === "string" ? message : `GitHub API error: ${response.status}`,
+      isRateLimitError: false,
+      status: response.status,
+    }
+  }
+  return { status: response.status }
+}
+
+// Fetches a single resource and validates it against `schema`
+export async function fetchGitHubApi<T>(
+  context: RequestContext,
+  path: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+): Promise<T | GitHubApiError> {
+  const result = await fetchGitHubResponse(context, path)
+  if ("error" in result) {
+    return result
+  }
+  const parsed = schema.safeParse(result.data)
+  return parsed.success ? parsed.data : malformedResponse(path, describeSchemaIssues(parsed.error))
+}
+
+// Follows the Link header's rel="next" until GitHub stops sending one, validating every page against
+// `schema`. `expectedCount` (e.g. a profile's follower count) lets progress report a total before the
+// first page arrives; rel="last" then refines it. `limits` can end the walk early: `complete` is false when
+// pages were left unread because of `limits.maxPages`.
+async function fetchPages<T>(
+  context: RequestContext,
+  path: string,
+  schema: z.ZodType<T[], z.ZodTypeDef, unknown>,
+  onPage?: (progress: PageProgress) => void,
+  expectedCount?: number,
+  limits: PageLimits = {},
+): Promise<{ items: T[]; complete: boolean } | GitHubApiError> {
+  let allData: T[] = []
+  let page: number | undefined = 1
+  let totalPages = expectedCount !== undefined ? estimateTotalPages(expectedCount, PER_PAGE) : undefined
+
+  while (page !== undefined) {
+    if (limits.maxPages !== undefined && page > limits.maxPages) {
+      return { items: allData, complete: false }
+    }
+    if (limits.shouldStop?.()) {
+      return { error: `Stopped before reading page ${page} of ${path}.`, isRateLimitError: false }
+    }
+
+    const result = await fetchGitHubResponse(context, path, page, PER_PAGE)
+
+    if ("error" in result) {
+      return result // Propagate error
+    }
+
+    const parsed = schema.safeParse(result.data)
+    if (!parsed.success) {
+      return malformedResponse(`${path} (page ${page})`, describeSchemaIssues(parsed.error))
+    }
+
+    const links = parseLinkHeader(result.headers.get("Link"))
+    const nextPage = getPageNumber(links.next)
+    // GitHub omits rel="last" on the final page, at which point the current page is the total
+    totalPages = getPageNumber(links.last) ?? (nextPage === undefined ? page : totalPages)
+
+    allData = allData.concat(parsed.data)
+    onPage?.({ page, totalPages })
+    page = nextPage
+  }
+  return { items: allData, complete: true }
+}
+
+export async function fetchAllPages<T>(
+  context: RequestContext,
+  path: string,
+  schema: z.ZodType<T[], z.ZodTypeDef, unknown>,
+  onPage?: (progress: PageProgress) => void,
+  expectedCount?: number,
+  limits?: PageLimits,
+): Promise<T[] | GitHubApiError> {
+  const result = await fetchPages(context, path, schema, onPage, expectedCount, limits)
+  return "error" in result ? result : result.items
+}
+
+export async function getUser(context: RequestContext, username: string): Promise<User | GitHubApiError> {
+  return cached(context.cache, cacheKey(context, "user", username), CACHE_TTL_SECONDS.profile, () =>
+    fetchGitHubApi(context, `/users/${encodeURIComponent(username)}`, userSchema),
+  )
+}
+
+// Reads a follower, following or member list through the cache and notes its age in context.listsFetchedAt
+async function getList(
+  context: RequestContext,
+  kind: "followers" | "following" | "members",
+  login: string,
+  path: string,
+  onPage?: (progress: PageProgress) => void,
+  expectedCount?: number,
+  limits?: PageLimits,
+): Promise<SimpleUser[] | GitHubApiError> {
+  const key = cacheKey(context, kind, login)
+  // Entries cached before fetch times were recorded hold a bare array; those are fetched again
+  let list = await readCached<CachedList | SimpleUser[]>(context.cache, key)
+  if (!list || Array.isArray(list)) {
+    const result = await fetchPages(context, path, simpleUserListSchema, onPage, expectedCount, limits)
+    if ("error" in result) {
+      return result
+    }
+    list = { users: result.items, fetchedAt: Date.now() }
+    // A list cut short by limits.maxPages would otherwise be served as the whole list to later requests
+    if (result.complete) {
+      await writeCached(context.cache, key, list, CACHE_TTL_SECONDS.list)
+    }
+  }
+  context.listsFetchedAt = Math.min(context.listsFetchedAt ?? list.fetchedAt, list.fetchedAt)
+  return list.users
+}
+
+export async function getFollowers(
+  context: RequestContext,
+  username: string,
+  onPage?: (progress: PageProgress) => void,
+  expectedCount?: number,
+  limits?: PageLimits,
+): Promise<SimpleUser[] | GitHubApiError> {
+  const path = `/users/${encodeURIComponent(username)}/followers`
+  return getList(context, "followers", username, path, onPage, expectedCount, limits)
+}
+
+export async function getFollowing(
+  context: RequestContext,
+  username: string,
+  onPage?: (progress: PageProgress) => void,
+  expectedCount?: number,
+  limits?: PageLimits,
+): Promise<SimpleUser[] | GitHubApiError> {
+  const path = `/users/${encodeURIComponent(username)}/following`
+  return getList(context, "following", username, path, onPage, expectedCount, limits)
+}
+
+// The token's owner, with the OAuth scopes GitHub reports for it in X-OAuth-Scopes. `scopes` is undefined when
+// the header is missing, as it is for fine-grained personal access tokens and GitHub App tokens.
+export interface TokenOwner {
+  user: User
+  scopes?: string[]
+}
+
+// Never cached: the answer depends on the token, not a login
+export async function getTokenOwner(context: RequestContext): Promise<TokenOwner | GitHubApiError> {
+  const result = await fetchGitHubResponse(context, "/user")
+  if ("error" in result) {
+    return result
+  }
+  const parsed = userSchema.safeParse(result.data)
+  if (!parsed.success) {
+    return malformedResponse("/user", describeSchemaIssues(parsed.error))
+  }
+  const scopeHeader = result.headers.get("X-OAuth-Scopes")
+  const scopes = scopeHeader === null ? undefined : scopeHeader.split(",").map((scope) => scope.trim()).filter(Boolean)
+  return { user: parsed.data, scopes }
+}
+
+// Public members of an organization; members who hid their membership are only listed for tokens of org members
+export async function getOrgMembers(
+  context: RequestContext,
+  org: string,
+  onPage?: (progress: PageProgress) => void,
+): Promise<SimpleUser[] | GitHubApiError> {
+  return getList(context, "members", org, `/orgs/${encodeURIComponent(org)}/members`, onPage)
+}
+
+// Unfollows `username` as the token's owner. Needs a classic token with the user:follow scope, or a
+// fine-grained token with the Followers permission; GitHub answers 404 or 403 otherwise.
+export async function unfollowUser(
+  context: RequestContext,
+  username: string,
+): Promise<{ status: number } | GitHubApiError> {
+  return sendGitHubMutation(context, "DELETE", `/user/following/${encodeURIComponent(username)}`)
+}
+
+// Follows `username` as the token's owner, with the same token requirements as unfollowUser
+export async function followUser(
+  context: RequestContext,
+  username: string,
+): Promise<{ status: number } | GitHubApiError> {
+  return sendGitHubMutation(context, "PUT", `/user/following/${encodeURIComponent(username)}`)
+}
+
+// /users/{username} also resolves organizations, which have followers but never follow anyone
+export function isOrganization(user: { type?: string }): boolean {
+  return user.type === "Organization"
+}
+
+export function toGitHubUser(user: User): GitHubUser {
+  return {
+    login: user.login,
+    avatar_url: user.avatar_url,
+    html_url: user.html_url,
+    type: user.type,
+    followers: user.followers,
+    following: user.following,
+    public_repos: user.public_repos,
+  }
+}
+
+export async function getUserDetails(context: RequestContext, username: string): Promise<GitHubUser | null> {
+  const userData = await getUser(context, username)
+  if ("error" in userData) {
+    return null // Return null if user details cannot be fetched
+  }
+  return toGitHubUser(userData)
+}
@@ -0,0 +1,141 @@
+import type { GitHubApiError } from "@/lib/github-api"
+import { describeSchemaIssues, graphQLOwnerNodeSchema, type User } from "@/lib/github-schemas"
+import { updateRateLimitFromHeaders, type RateLimitInfo } from "@/lib/rate-limit"
+import { fetchWithRetry, type RetryStats } from "@/lib/retry"
+
+export interface GraphQLRequestOptions {
+  rateLimit?: RateLimitInfo // Updated with the GraphQL points budget from the response
+  retries?: RetryStats // Incremented for every retried request
+  endpoint?: string // The selected host's GraphQL endpoint, which may be a local stand-in
+}
+
+interface GraphQLResponse {
+  data?: {
+    rateLimit?: { remaining: number }
+    [alias: string]: unknown // u0, u1, ... validated with graphQLOwnerNodeSchema
+  } | null
+  errors?: { type?: string; message: string }[]
+  message?: string
+}
+
+// GraphQL has no follower count for organizations, so their profiles leave it out. They follow nobody.
+export type GraphQLProfile = User | (Omit<User, "followers"> & { type: "Organization" })
+
+// GitHub caps aliased lookups well above this, but 100 keeps each query cheap and under the node limit
+export const GRAPHQL_BATCH_SIZE = 100
+
+const GITHUB_GRAPHQL_URL = "https://api.github.com/graphql"
+
+const PROFILE_FIELDS = `
+fragment ProfileFields on RepositoryOwner {
+  __typename
+  login
+  avatarUrl
+  url
+  repositories(privacy: PUBLIC) { totalCount }
+  ... on User {
+    followers { totalCount }
+    following { totalCount }
+  }
+}`
+
+function buildProfilesQuery(count: number): string {
+  const variables = Array.from({ length: count }, (_, index) => `$l${index}: String!`).join(", ")
+  const fields = Array.from({ length: count }, (_, index) => `u${index}: repositoryOwner(login: $l${index}) { ...ProfileFields }`)
+  return `query(${variables}) {\n  rateLimit { remaining }\n  ${fields.join("\n  ")}\n}\n${PROFILE_FIELDS}`
+}
+
+// Resolves up to GRAPHQL_BATCH_SIZE logins in a single query, in the same shape as the REST /users/{username}
+// payload. Organizations resolve too, since accounts can follow them. Logins GitHub can't resolve map to null.
+export async function fetchUserProfilesGraphQL(
+  logins: string[],
+  token: string,
+  { rateLimit, retries, endpoint = GITHUB_GRAPHQL_URL }: GraphQLRequestOptions = {},
+): Promise<(GraphQLProfile | null)[] | GitHubApiError> {
+  if (logins.length > GRAPHQL_BATCH_SIZE) {
+    return { error: `GraphQL batches are limited to ${GRAPHQL_BATCH_SIZE} logins.`, isRateLimitError: false }
+  }
+  if (logins.length === 0) {
+    return []
+  }
+
+  const variables = Object.fromEntries(logins.map((login, index) => [`l${index}`, login]))
+
+  try {
+    const response = await fetchWithRetry(
+      endpoint,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ query: buildProfilesQuery(logins.length), variables }),
+        cache: "no-store",
+      },
+      retries,
+    )
+
+    if (rateLimit) {
+      updateRateLimitFromHeaders(rateLimit, response.headers)
+    }
+
+    const body: GraphQLResponse = await response.json()
+
+    if (
+      (response.status === 403 && response.headers.get("X-RateLimit-Remaining") === "0") ||
+      body.errors?.some((error) => error.type === "RATE_LIMITED")
+    ) {
+      return {
+        error: "GitHub GraphQL API rate limit exceeded. Please try again later.",
+        isRateLimitError: true,
+      }
+    }
+
+    if (!response.ok || !body.data) {
+      return {
+        error: body.message || body.errors?.[0]?.message || `GitHub GraphQL API error: ${response.status}`,
+        isRateLimitError: false,
+      }
+    }
+
+    if (rateLimit && body.data.rateLimit) {
+      rateLimit.remaining = body.data.rateLimit.remaining
+    }
+
+    const profiles: (GraphQLProfile | null)[] = []
+    for (let index = 0; index < logins.length; index++) {
+      const node = body.data[`u${index}`]
+      if (node === null || node === undefined) {
+        profiles.push(null) // NOT_FOUND errors leave the alias null, e.g. for renamed or deleted accounts
+        continue
+      }
+      const parsed = graphQLOwnerNodeSchema.safeParse(node)
+      if (!parsed.success) {
+        console.error(`Malformed GitHub GraphQL response for ${logins[index]}: ${describeSchemaIssues(parsed.error)}`)
+        return {
+          error: "GitHub returned an unexpected GraphQL response.",
+          isRateLimitError: false,
+          isMalformedResponse: true,
+        }
+      }
+      const owner = parsed.data
+      const fields = { login: owner.login, avatar_url: owner.avatarUrl, html_url: owner.url }
+      profiles.push(
+        owner.__typename === "User"
+          ? {
+              ...fields,
+              type: "User",
+              followers: owner.followers.totalCount,
+              following: owner.following.totalCount,
+              public_repos: owner.repositories.totalCount,
+            }
+          : { ...fields, type: "Organization", following: 0, public_repos: owner.repositories.totalCount },
+      )
+    }
+    return profiles
+  } catch (error) {
+    console.error("Error fetching from GitHub GraphQL API:", error)
+    return { error: "Failed to connect to GitHub GraphQL API.", isRateLimitError: false }
+  }
+}
@@ -0,0 +1,83 @@
+export interface GitHubHost {
+  host: string // Hostname users pick, e.g. "github.com" or "github.example.com"
+  apiBaseUrl: string // REST API root, e.g. "https://api.github.com" or "https://github.example.com/api/v3"
+  graphqlUrl: string
+  webUrl: string // Used for profile and settings links
+}
+
+// Hostname and web URL only, safe to send to the browser
+export type GitHubHostSummary = Pick<GitHubHost, "host" | "webUrl">
+
+export const GITHUB_DOT_COM = "github.com"
+
+// Derives the endpoints for a host. github.com serves its API from a subdomain, while GitHub Enterprise
+// Server serves REST under /api/v3 and GraphQL under /api/graphql on the instance's own origin.
+// Entries may include a scheme and port (e.g. "http://ghe.local:8080") for instances not served over https.
+function deriveGitHubHost(entry: string): GitHubHost {
+  const origin = new URL(/^https?:\/\//.test(entry) ? entry : `https://${entry}`)
+  const webUrl = origin.origin
+  if (origin.host === GITHUB_DOT_COM) {
+    return {
+      host: GITHUB_DOT_COM,
+      apiBaseUrl: "https://api.github.com",
+      graphqlUrl: "https://api.github.com/graphql",
+      webUrl,
+    }
+  }
+  return {
+    host: origin.host,
+    apiBaseUrl: `${webUrl}/api/v3`,
+    graphqlUrl: `${webUrl}/api/graphql`,
+    webUrl,
+  }
+}
+
+// The deployment's default host, with optional explicit endpoint overrides (e.g. a local stand-in API)
+function getDefaultGitHubHost(): GitHubHost {
+  const derived = deriveGitHubHost(process.env.GITHUB_HOST || GITHUB_DOT_COM)
+  return {
+    host: derived.host,
+    apiBaseUrl: process.env.GITHUB_API_BASE_URL || derived.apiBaseUrl,
+    graphqlUrl: process.env.GITHUB_GRAPHQL_URL || derived.graphqlUrl,
+    webUrl: process.env.GITHUB_WEB_URL || derived.webUrl,
+  }
+}
+
+// Every host a search may target: the default host first, then GITHUB_ENTERPRISE_HOSTS (comma-separated).
+// Searches can only reach hosts listed here, so the server never calls arbitrary user-supplied URLs.
+export function getGitHubHosts(): GitHubHost[] {
+  const hosts = [getDefaultGitHubHost()]
+  const extraEntries = (process.env.GITHUB_ENTERPRISE_HOSTS || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+
+  for (const entry of extraEntries) {
+    try {
+      const host = deriveGitHubHost(entry)
+      if (!hosts.some((existing) => existing.host === host.host)) {
+        hosts.push(host)
+      }
+    } catch {
+      console.error(`Ignoring invalid GITHUB_ENTERPRISE_HOSTS entry: ${entry}`)
+    }
+  }
+  return hosts
+}
+
+// Resolves a host selected for a search, falling back to the default host when none is given
+export function resolveGitHubHost(host?: string): GitHubHost | { error: string } {
+  const hosts = getGitHubHosts()
+  if (!host) {
+    return hosts[0]
+  }
+  const normalized = host.trim().toLowerCase()
+  const match = hosts.find((candidate) => candidate.host.toLowerCase() === normalized)
+  return match ?? { error: `GitHub host ${host} is not configured for this deployment.` }
+}
+
+// GITHUB_TOKEN authenticates requests the server makes on its own (scheduled snapshots, digests). It only
+// applies to the default host, since a github.com token means nothing to an Enterprise Server instance.
+export function getServerToken(host: GitHubHost): string | undefined {
+  return host.host === getDefaultGitHubHost().host ? process.env.GITHUB_TOKEN || undefined : undefined
+}
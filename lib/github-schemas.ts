@@ -0,0 +1,62 @@
+import { z } from "zod"
+
+// Only the fields the app reads are validated; GitHub's extra fields pass through untouched
+
+// Entries of /users/{username}/followers and /users/{username}/following
+export const simpleUserSchema = z.object({
+  login: z.string().min(1),
+  avatar_url: z.string(),
+  html_url: z.string(),
+  type: z.string().optional(), // "User" or "Organization" (or "Bot")
+})
+
+export const simpleUserListSchema = z.array(simpleUserSchema)
+
+// /users/{username}
+export const userSchema = simpleUserSchema.extend({
+  followers: z.number().int().nonnegative(),
+  following: z.number().int().nonnegative(),
+  public_repos: z.number().int().nonnegative(),
+})
+
+const graphQLOwnerFields = {
+  login: z.string().min(1),
+  avatarUrl: z.string(),
+  url: z.string(),
+  repositories: z.object({ totalCount: z.number() }),
+}
+
+// A `repositoryOwner(login:)` node from the GraphQL API, as selected by the ProfileFields fragment. Only users
+// have follower counts there.
+export const graphQLOwnerNodeSchema = z.discriminatedUnion("__typename", [
+  z.object({
+    __typename: z.literal("User"),
+    ...graphQLOwnerFields,
+    followers: z.object({ totalCount: z.number() }),
+    following: z.object({ totalCount: z.number() }),
+  }),
+  z.object({ __typename: z.literal("Organization"), ...graphQLOwnerFields }),
+])
+
+export type SimpleUser = z.infer<typeof simpleUserSchema>
+export type User = z.infer<typeof userSchema>
+export type GraphQLOwnerNode = z.infer<typeof graphQLOwnerNodeSchema>
+
+// The profile card shape shared by the server and the result grid
+export interface GitHubUser {
+  login: string
+  avatar_url: string
+  html_url: string
+  type?: string // "User" or "Organization" (or "Bot")
+  followers?: number
+  following?: number
+  public_repos?: number
+}
+
+// Formats the first few validation issues for logs and error messages
+export function describeSchemaIssues(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`)
+    .join("; ")
+}
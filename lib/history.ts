@@ -0,0 +1,115 @@
+import { resolveGitHubHost } from "@/lib/github-hosts"
+import { getSnapshotStore, type FollowerSnapshot } from "@/lib/snapshots"
+import { diffSnapshots, type SnapshotDiff } from "@/lib/snapshots/diff"
+
+export interface SnapshotSummary {
+  takenAt: number
+  followers: number
+  following: number
+}
+
+export interface FollowerChangesResult {
+  username?: string
+  webUrl?: string // For profile links and avatars of the listed logins
+  latest?: SnapshotSummary
+  previous?: SnapshotSummary // Missing when only one snapshot has been taken so far
+  changes?: SnapshotDiff
+  error?: string
+}
+
+// One stored snapshot on the follower timeline; `gained` and `lost` are followers since the previous point
+export interface FollowerTimelinePoint extends SnapshotSummary {
+  mutuals: number
+  gained: string[]
+  lost: string[]
+}
+
+export interface FollowerTimelineResult {
+  username?: string
+  points?: FollowerTimelinePoint[] // Oldest first
+  error?: string
+}
+
+// Keeps the chart readable and bounds the snapshot files read per request
+const TIMELINE_MAX_POINTS = 100
+
+function summarize(snapshot: FollowerSnapshot): SnapshotSummary {
+  return { takenAt: snapshot.takenAt, followers: snapshot.followers.length, following: snapshot.following.length }
+}
+
+function countMutuals(snapshot: FollowerSnapshot): number {
+  const followers = new Set(snapshot.followers.map((login) => login.toLowerCase()))
+  return snapshot.following.filter((login) => followers.has(login.toLowerCase())).length
+}
+
+// Diffs the latest stored snapshot of `username` against the one before it
+export async function loadFollowerChanges(username: string, host?: string): Promise<FollowerChangesResult> {
+  if (!username) {
+    return { error: "Username cannot be empty." }
+  }
+  const resolvedHost = resolveGitHubHost(host)
+  if ("error" in resolvedHost) {
+    return { error: resolvedHost.error }
+  }
+
+  let snapshots: FollowerSnapshot[]
+  try {
+    snapshots = await getSnapshotStore().latest(resolvedHost.host, username, 2)
+  } catch (error) {
+    console.error("Failed to read follower snapshots:", error)
+    return { error: "Could not read stored snapshots." }
+  }
+
+  const [latest, previous] = snapshots
+  if (!latest) {
+    return { error: `No snapshots stored for ${username} yet. Run a check on the home page first.` }
+  }
+
+  return {
+    username: latest.username,
+    webUrl: resolvedHost.webUrl,
+    latest: summarize(latest),
+    previous: previous && summarize(previous),
+    changes: previous && diffSnapshots(previous, latest),
+  }
+}
+
+// Follower, following and mutual counts for each stored snapshot of `username`, with the followers gained and
+// lost since the snapshot before it
+export async function loadFollowerTimeline(username: string, host?: string): Promise<FollowerTimelineResult> {
+  if (!username) {
+    return { error: "Username cannot be empty." }
+  }
+  const resolvedHost = resolveGitHubHost(host)
+  if ("error" in resolvedHost) {
+    return { error: resolvedHost.error }
+  }
+
+  let snapshots: FollowerSnapshot[]
+  try {
+    // One extra snapshot so the oldest plotted point still knows what changed before it
+    snapshots = (await getSnapshotStore().latest(resolvedHost.host, username, TIMELINE_MAX_POINTS + 1)).reverse()
+  } catch (error) {
+    console.error("Failed to read follower snapshots:", error)
+    return { error: "Could not read stored snapshots." }
+  }
+
+  if (snapshots.length === 0) {
+    return { error: `No snapshots stored for ${username} yet. Run a check on the home page first.` }
+  }
+
+  const points = snapshots.map((snapshot, index): FollowerTimelinePoint => {
+    const changes = index > 0 ? diffSnapshots(snapshots[index - 1], snapshot) : undefined
+    return {
+      ...summarize(snapshot),
+      mutuals: countMutuals(snapshot),
+      gained: changes?.newFollowers ?? [],
+      lost: changes?.unfollowers ?? [],
+    }
+  })
+
+  return {
+    username: snapshots[snapshots.length - 1].username,
+    points: points.slice(-TIMELINE_MAX_POINTS),
+  }
+}
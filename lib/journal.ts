@@ -0,0 +1,110 @@
+import { createHash } from "node:crypto"
+import { appendFile, mkdir, readFile } from "node:fs/promises"
+import path from "node:path"
+
+export type JournalAction = "follow" | "unfollow"
+
+// One follow or unfollow request sent to GitHub on someone's behalf
+export interface JournalEntry {
+  id: string
+  batchId: string // Shared by every request of one bulk unfollow, follow-back queue or undo
+  action: JournalAction
+  target: string // The account that was (un)followed
+  actor: string // Login of the token's owner, as GitHub reported it
+  tokenFingerprint: string // Tells tokens of the same actor apart without storing them
+  host: string
+  status: "succeeded" | "failed"
+  error?: string
+  undoOf?: string // The batch this request reverses
+  at: number // Unix epoch milliseconds
+}
+
+export interface JournalBatch {
+  batchId: string
+  action: JournalAction
+  actor: string
+  host: string
+  startedAt: number
+  entries: JournalEntry[] // Oldest first
+  undoOf?: string
+  undoneBy?: string // The batch that reversed this one, if any
+}
+
+export const INVERSE_ACTIONS: Record<JournalAction, JournalAction> = { follow: "unfollow", unfollow: "follow" }
+
+function getJournalPath(): string {
+  return process.env.JOURNAL_PATH || ".data/follow-journal.jsonl"
+}
+
+export function fingerprintToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex").slice(0, 16)
+}
+
+// Appends one JSON line per request, like the webhook delivery log
+export async function appendJournalEntry(entry: JournalEntry): Promise<void> {
+  const journalPath = getJournalPath()
+  await mkdir(path.dirname(journalPath), { recursive: true })
+  await appendFile(journalPath, `${JSON.stringify(entry)}\n`)
+}
+
+// Every recorded request, oldest first
+export async function readJournal(): Promise<JournalEntry[]> {
+  let contents: string
+  try {
+    contents = await readFile(getJournalPath(), "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+
+  const entries: JournalEntry[] = []
+  for (const line of contents.split("\n")) {
+    if (line.trim()) {
+      try {
+        entries.push(JSON.parse(line))
+      } catch {
+        // A line cut short by a crash mid-append; skip it
+      }
+    }
+  }
+  return entries
+}
+
+// Batch ids come from whoever started the batch, e.g. a browser's follow-back queue, so a batch is only ever
+// one actor's on one host: entries that reuse someone else's id start a batch of their own
+function batchKey(host: string, actor: string, batchId: string): string {
+  return `${host}:${actor.toLowerCase()}:${batchId}`
+}
+
+// Groups entries into batches, newest first, and links each undone batch to the batch that reversed it
+export function groupJournalBatches(entries: JournalEntry[]): JournalBatch[] {
+  const batches = new Map<string, JournalBatch>()
+  for (const entry of entries) {
+    const key = batchKey(entry.host, entry.actor, entry.batchId)
+    const batch = batches.get(key)
+    if (batch) {
+      batch.entries.push(entry)
+    } else {
+      batches.set(key, {
+        batchId: entry.batchId,
+        action: entry.action,
+        actor: entry.actor,
+        host: entry.host,
+        startedAt: entry.at,
+        entries: [entry],
+        undoOf: entry.undoOf,
+      })
+    }
+  }
+
+  // An undo whose every request failed changed nothing, so the original can still be undone
+  for (const batch of batches.values()) {
+    const undone = batch.undoOf ? batches.get(batchKey(batch.host, batch.actor, batch.undoOf)) : undefined
+    if (undone && batch.entries.some((entry) => entry.status === "succeeded")) {
+      undone.undoneBy = batch.batchId
+    }
+  }
+  return [...batches.values()].sort((a, b) => b.startedAt - a.startedAt)
+}
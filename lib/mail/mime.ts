@@ -0,0 +1,57 @@
+import { randomUUID } from "node:crypto"
+
+import type { MailMessage } from "@/lib/mail"
+
+// Headers must be ASCII; anything else goes out as an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, "utf8").toString("base64")}?=`
+}
+
+// Base64 body lines are wrapped at 76 characters, as MIME requires
+function encodeBody(content: string): string {
+  const encoded = Buffer.from(content, "utf8").toString("base64")
+  return encoded.match(/.{1,76}/g)?.join("\r\n") ?? ""
+}
+
+// Lines starting with "." would otherwise end the SMTP DATA section early (RFC 5321 4.5.2)
+export function dotStuff(data: string): string {
+  return data.replace(/^\./gm, "..")
+}
+
+export function extractAddress(mailbox: string): string {
+  return /<([^>]+)>/.exec(mailbox)?.[1] ?? mailbox.trim()
+}
+
+function textPart(contentType: string, content: string): string {
+  const headers = [`Content-Type: ${contentType}; charset=utf-8`, "Content-Transfer-Encoding: base64"]
+  return [...headers, "", encodeBody(content)].join("\r\n")
+}
+
+// Builds an RFC 5322 message with CRLF line endings: plain text only, or multipart/alternative with HTML
+export function buildMimeMessage(message: MailMessage): string {
+  const domain = extractAddress(message.from).split("@")[1] || "localhost"
+  const headers = [
+    `From: ${message.from}`,
+    `To: ${message.to.join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+  ]
+
+  if (!message.html) {
+    return [...headers, textPart("text/plain", message.text)].join("\r\n")
+  }
+
+  const boundary = `alt-${randomUUID()}`
+  return [
+    ...headers,
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+    "",
+    `--${boundary}`,
+    textPart("text/plain", message.text),
+    `--${boundary}`,
+    textPart("text/html", message.html),
+    `--${boundary}--`,
+  ].join("\r\n")
+}
@@ -0,0 +1,185 @@
+import net from "node:net"
+import { hostname } from "node:os"
+import tls from "node:tls"
+
+import type { MailMessage, MailSender } from "@/lib/mail"
+import { buildMimeMessage, dotStuff, extractAddress } from "@/lib/mail/mime"
+
+export interface SmtpOptions {
+  host: string
+  port: number
+  secure: boolean // Implicit TLS (smtps://); otherwise STARTTLS is used whenever the server offers it
+  username?: string
+  password?: string
+}
+
+interface SmtpReply {
+  code: number
+  lines: string[] // Reply text without the status code, one entry per line of a multiline reply
+}
+
+const SMTP_TIMEOUT_MS = 30_000
+
+function isLoopback(host: string): boolean {
+  return host === "localhost" || host === "::1" || host.startsWith("127.")
+}
+
+// One SMTP conversation: writes commands and reads the (possibly multiline) replies in order
+class SmtpSession {
+  private buffer = ""
+  private replyLines: string[] = []
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket) {
+    this.listen(socket)
+  }
+
+  private onData = (chunk: string) => {
+    this.buffer += chunk
+    const lines = this.buffer.split("\n")
+    this.buffer = lines.pop() ?? "" // Keep the trailing partial line for the next chunk
+    this.replyLines.push(...lines.map((line) => line.replace(/\r$/, "")))
+    this.flush()
+  }
+
+  private onError = (error: Error) => this.fail(error)
+
+  private onClose = () => this.fail(new Error("The SMTP server closed the connection."))
+
+  private listen(socket: net.Socket) {
+    socket.setEncoding("utf8")
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new Error("The SMTP server stopped responding.")))
+    socket.on("data", this.onData)
+    socket.on("error", this.onError)
+    socket.on("close", this.onClose)
+  }
+
+  private unlisten(socket: net.Socket) {
+    socket.setTimeout(0)
+    socket.off("data", this.onData)
+    socket.off("error", this.onError)
+    socket.off("close", this.onClose)
+  }
+
+  // Resolves the pending read once a reply's final line ("250 ok" rather than "250-...") has arrived
+  private flush() {
+    if (!this.pending) {
+      return
+    }
+    const end = this.replyLines.findIndex((line) => line[3] !== "-")
+    if (end === -1) {
+      return
+    }
+    const lines = this.replyLines.splice(0, end + 1)
+    const { resolve } = this.pending
+    this.pending = null
+    resolve({ code: Number(lines[0].slice(0, 3)), lines: lines.map((line) => line.slice(4)) })
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error
+    this.pending?.reject(this.failure)
+    this.pending = null
+  }
+
+  private read(): Promise<SmtpReply> {
+    if (this.failure) {
+      return Promise.reject(this.failure)
+    }
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  // Sends `line` (or nothing, to read the greeting) and checks the reply code. Errors only name the
+  // command's verb, so AUTH credentials never end up in logs.
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    if (line !== null) {
+      this.socket.write(`${line}\r\n`)
+    }
+    const reply = await this.read()
+    if (!expected.includes(reply.code)) {
+      const verb = line === null ? "the connection" : line.split(" ")[0]
+      throw new Error(`SMTP server rejected ${verb}: ${reply.code} ${reply.lines.join(" ")}`)
+    }
+    return reply
+  }
+
+  async upgradeToTls(servername: string) {
+    this.unlisten(this.socket)
+    const secureSocket = tls.connect({ socket: this.socket, servername })
+    await new Promise<void>((resolve, reject) => {
+      secureSocket.once("secureConnect", resolve)
+      secureSocket.once("error", reject)
+    })
+    this.socket = secureSocket
+    this.listen(secureSocket)
+  }
+
+  close() {
+    this.unlisten(this.socket)
+    this.socket.on("error", () => undefined) // A reset after QUIT is of no interest, but must not go unhandled
+    this.socket.destroy()
+  }
+}
+
+// A dependency-free SMTP client: EHLO, STARTTLS when offered, AUTH PLAIN when credentials are set, then one
+// message per connection. Good enough for relays and local sinks such as MailHog or smtp4dev.
+export class SmtpMailSender implements MailSender {
+  constructor(private options: SmtpOptions) {}
+
+  static fromUrl(url: string): SmtpMailSender {
+    const parsed = new URL(url)
+    if (parsed.protocol !== "smtp:" && parsed.protocol !== "smtps:") {
+      throw new Error(`Unsupported SMTP_URL protocol: ${parsed.protocol}`)
+    }
+    const secure = parsed.protocol === "smtps:"
+    return new SmtpMailSender({
+      host: parsed.hostname.replace(/^\[|\]$/g, ""), // IPv6 literals come bracketed
+      port: parsed.port ? Number(parsed.port) : secure ? 465 : 25,
+      secure,
+      username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+      password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    })
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const { host, port, secure, username, password } = this.options
+    const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port })
+    const session = new SmtpSession(socket)
+
+    try {
+      await session.command(null, [220])
+      const greeting = `EHLO ${hostname() || "localhost"}`
+      const capabilities = await session.command(greeting, [250])
+
+      let encrypted = secure
+      if (!secure && capabilities.lines.some((line) => /^STARTTLS\b/i.test(line))) {
+        await session.command("STARTTLS", [220])
+        await session.upgradeToTls(host)
+        await session.command(greeting, [250]) // Capabilities may change once the connection is encrypted
+        encrypted = true
+      }
+
+      if (username) {
+        if (!encrypted && !isLoopback(host)) {
+          throw new Error("Refusing to send SMTP credentials over an unencrypted connection.")
+        }
+        const credentials = Buffer.from(`\0${username}\0${password ?? ""}`, "utf8").toString("base64")
+        await session.command(`AUTH PLAIN ${credentials}`, [235])
+      }
+
+      await session.command(`MAIL FROM:<${extractAddress(message.from)}>`, [250])
+      for (const recipient of message.to) {
+        await session.command(`RCPT TO:<${extractAddress(recipient)}>`, [250, 251])
+      }
+      await session.command("DATA", [354])
+      await session.command(`${dotStuff(buildMimeMessage(message))}\r\n.`, [250])
+      await session.command("QUIT", [221]).catch(() => undefined) // The message is already accepted
+    } finally {
+      session.close()
+    }
+  }
+}
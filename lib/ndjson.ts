@@ -0,0 +1,55 @@
+// Newline-delimited JSON streams, used by routes that report progress while they work
+
+// Builds a streaming response for `run`, which writes events with `send` until it resolves
+export function ndjsonResponse<T>(run: (send: (event: T) => void) => Promise<void>): Response {
+  const encoder = new TextEncoder()
+  let cancelled = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      await run((event) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`))
+        }
+      })
+
+      if (!cancelled) {
+        controller.close()
+      }
+    },
+    cancel() {
+      cancelled = true // The browser went away; let the work finish without writing to a closed stream
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  })
+}
+
+// Reads a streaming response body line by line, calling `onEvent` with each parsed event
+export async function readNdjson<T>(body: NonNullable<Response["body"]>, onEvent: (event: T) => void): Promise<void> {
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader()
+  let buffer = ""
+
+  const handleLine = (line: string) => {
+    if (line.trim()) {
+      onEvent(JSON.parse(line))
+    }
+  }
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) {
+      break
+    }
+    buffer += value
+    const lines = buffer.split("\n")
+    buffer = lines.pop() ?? "" // Keep the trailing partial line for the next chunk
+    lines.forEach(handleLine)
+  }
+  handleLine(buffer)
+}
@@ -0,0 +1,173 @@
+import { createRequestContext, getTokenOwner } from "@/lib/github-api"
+import { resolveGitHubHost, type GitHubHost } from "@/lib/github-hosts"
+import { isSessionConfigured, SESSION_MAX_AGE_SECONDS, type Session } from "@/lib/session"
+
+// The OAuth app users sign in through. It belongs to the default host; other hosts still take pasted tokens.
+export interface OAuthApp {
+  clientId: string
+  clientSecret: string
+  baseUrl: string // Origin serving /login/oauth/* and /login/device/*, e.g. https://github.com or a local mock
+  host: GitHubHost
+}
+
+export interface DeviceCode {
+  deviceCode: string // Secret the client polls with
+  userCode: string // What the user types at verificationUri
+  verificationUri: string
+  expiresIn: number // Seconds
+  interval: number // Minimum seconds between polls
+}
+
+export type OAuthTokenResult =
+  | { token: string; scopes: string[] }
+  | { pending: true; interval?: number } // Device flow: the user hasn't entered the code yet
+  | { error: string }
+
+// user:follow for bulk unfollow and follow-backs, read:org so organization audits see private members
+export const OAUTH_SCOPES = ["user:follow", "read:org"]
+
+const DEVICE_GRANT_TYPE = "urn:ietf:params:oauth:grant-type:device_code"
+
+// Sign-in is enabled once GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET and SESSION_SECRET are all set
+export function getOAuthApp(): OAuthApp | { error: string } {
+  const clientId = process.env.GITHUB_CLIENT_ID
+  const clientSecret = process.env.GITHUB_CLIENT_SECRET
+  if (!clientId || !clientSecret || !isSessionConfigured()) {
+    return { error: "Sign-in is disabled. Set GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET and SESSION_SECRET to enable it." }
+  }
+  const host = resolveGitHubHost()
+  if ("error" in host) {
+    return host
+  }
+  return { clientId, clientSecret, baseUrl: process.env.GITHUB_OAUTH_URL || host.webUrl, host }
+}
+
+export function buildAuthorizeUrl(app: OAuthApp, state: string, redirectUri: string): string {
+  const url = new URL("/login/oauth/authorize", app.baseUrl)
+  url.searchParams.set("client_id", app.clientId)
+  url.searchParams.set("redirect_uri", redirectUri)
+  url.searchParams.set("scope", OAUTH_SCOPES.join(" "))
+  url.searchParams.set("state", state)
+  return url.toString()
+}
+
+// GitHub's OAuth endpoints answer 200 with an `error` field for most failures, so transport failures are
+// reported the same way
+async function postOAuth(
+  app: OAuthApp,
+  path: string,
+  params: Record<string, string>,
+): Promise<Record<string, unknown>> {
+  let response: Response
+  try {
+    response = await fetch(new URL(path, app.baseUrl), {
+      method: "POST",
+      headers: { Accept: "application/json", "Content-Type": "application/json" },
+      body: JSON.stringify(params),
+      cache: "no-store",
+    })
+  } catch (error) {
+    console.error("OAuth request failed:", error)
+    return { error: `Could not reach ${app.host.host} to sign in. Please try again.` }
+  }
+
+  const body = (await response.json().catch(() => null)) as Record<string, unknown> | null
+  if (!response.ok || !body) {
+    return { error: `${app.host.host} answered ${response.status} while signing in.` }
+  }
+  return body
+}
+
+function describeOAuthError(body: Record<string, unknown>): string {
+  if (typeof body.error_description === "string") {
+    return body.error_description
+  }
+  return typeof body.error === "string" ? body.error : "Sign-in failed."
+}
+
+function toTokenResult(body: Record<string, unknown>): OAuthTokenResult {
+  if (typeof body.access_token === "string") {
+    const scope = typeof body.scope === "string" ? body.scope : ""
+    return { token: body.access_token, scopes: scope.split(/[ ,]+/).filter(Boolean) }
+  }
+  switch (body.error) {
+    case "authorization_pending":
+      return { pending: true }
+    case "slow_down":
+      return { pending: true, interval: typeof body.interval === "number" ? body.interval : undefined }
+    case "expired_token":
+      return { error: "The code expired before it was entered. Start signing in again." }
+    case "access_denied":
+      return { error: "Sign-in was cancelled on GitHub." }
+  }
+  return { error: describeOAuthError(body) }
+}
+
+// Web flow: trades the code GitHub redirected back with for an access token
+export async function exchangeCode(app: OAuthApp, code: string, redirectUri: string): Promise<OAuthTokenResult> {
+  const body = await postOAuth(app, "/login/oauth/access_token", {
+    client_id: app.clientId,
+    client_secret: app.clientSecret,
+    code,
+    redirect_uri: redirectUri,
+  })
+  return toTokenResult(body)
+}
+
+// Device flow, for signing in from a machine without a browser: the user enters the returned code on another
+// device while this one polls pollDeviceToken
+export async function requestDeviceCode(app: OAuthApp): Promise<DeviceCode | { error: string }> {
+  const body = await postOAuth(app, "/login/device/code", { client_id: app.clientId, scope: OAUTH_SCOPES.join(" ") })
+  if (typeof body.device_code !== "string" || typeof body.user_code !== "string") {
+    return { error: describeOAuthError(body) }
+  }
+  return {
+    deviceCode: body.device_code,
+    userCode: body.user_code,
+    verificationUri: String(body.verification_uri),
+    expiresIn: Number(body.expires_in),
+    interval: Number(body.interval) || 5,
+  }
+}
+
+export async function pollDeviceToken(app: OAuthApp, deviceCode: string): Promise<OAuthTokenResult> {
+  const body = await postOAuth(app, "/login/oauth/access_token", {
+    client_id: app.clientId,
+    device_code: deviceCode,
+    grant_type: DEVICE_GRANT_TYPE,
+  })
+  return toTokenResult(body)
+}
+
+// Looks up who the token belongs to, since the session shows and journals that login
+export async function createSession(
+  app: OAuthApp,
+  token: string,
+  scopes: string[],
+): Promise<Session | { error: string }> {
+  const owner = await getTokenOwner(createRequestContext(app.host, token))
+  if ("error" in owner) {
+    return { error: owner.error }
+  }
+  return {
+    token,
+    login: owner.user.login,
+    host: app.host.host,
+    scopes,
+    expiresAt: Date.now() + SESSION_MAX_AGE_SECONDS * 1000,
+  }
+}
+
+export const OAUTH_STATE_COOKIE = "follower_check_oauth_state"
+
+// Where to send the browser after signing in. Only same-site paths, so the login route can't be used as an
+// open redirect. The path is resolved rather than prefix-checked, since URL parsing drops tabs and newlines
+// and turns backslashes into slashes: "/\t/evil.example" would pass a "//" check and still leave the site.
+export function safeReturnTo(value: string | null | undefined): string {
+  if (!value?.startsWith("/")) {
+    return "/"
+  }
+  const origin = "http://localhost"
+  const url = new URL(value, origin)
+  return url.origin === origin ? `${url.pathname}${url.search}${url.hash}` : "/"
+}
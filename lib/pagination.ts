@@ -0,0 +1,38 @@
+export interface PageProgress {
+  page: number // 1-based page that was just fetched
+  totalPages?: number // Known once GitHub reports rel="last", or the list's final page has been reached
+}
+
+export interface PageLimits {
+  maxPages?: number // Stop after this many pages, leaving the list incomplete
+  shouldStop?: () => boolean // Checked before every page; once true, fetching ends with an error
+}
+
+// Parses an RFC 8288 Link header, e.g. `<https://api.github.com/...&page=2>; rel="next", <...>; rel="last"`
+export function parseLinkHeader(header: string | null): Record<string, string> {
+  const links: Record<string, string> = {}
+  if (!header) {
+    return links
+  }
+  for (const part of header.split(",")) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="([^"]+)"/)
+    if (match) {
+      for (const rel of match[2].split(/\s+/)) {
+        links[rel] = match[1]
+      }
+    }
+  }
+  return links
+}
+
+export function getPageNumber(url: string | undefined): number | undefined {
+  if (!url) {
+    return undefined
+  }
+  const page = Number(new URL(url).searchParams.get("page"))
+  return Number.isInteger(page) && page > 0 ? page : undefined
+}
+
+export function estimateTotalPages(itemCount: number, perPage: number): number {
+  return Math.max(1, Math.ceil(itemCount / perPage))
+}
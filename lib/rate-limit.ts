@@ -0,0 +1,28 @@
+// Rate-limit budget as reported by GitHub's X-RateLimit-* response headers
+export interface RateLimitInfo {
+  limit?: number
+  remaining?: number
+  reset?: number // Unix epoch seconds at which the budget refills
+  used?: number
+}
+
+const RATE_LIMIT_HEADERS: Record<keyof RateLimitInfo, string> = {
+  limit: "X-RateLimit-Limit",
+  remaining: "X-RateLimit-Remaining",
+  reset: "X-RateLimit-Reset",
+  used: "X-RateLimit-Used",
+}
+
+// Copies any X-RateLimit-* headers present on a response into `rateLimit`, leaving missing ones untouched
+export function updateRateLimitFromHeaders(rateLimit: RateLimitInfo, headers: Headers): void {
+  for (const [key, header] of Object.entries(RATE_LIMIT_HEADERS) as [keyof RateLimitInfo, string][]) {
+    const value = headers.get(header)
+    if (value !== null && !Number.isNaN(Number(value))) {
+      rateLimit[key] = Number(value)
+    }
+  }
+}
+
+export function isRateLimitNearlyExhausted(rateLimit: RateLimitInfo, reserve: number): boolean {
+  return rateLimit.remaining !== undefined && rateLimit.remaining <= reserve
+}
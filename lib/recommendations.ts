@@ -0,0 +1,126 @@
+import { createRequestCache, type CacheMetrics } from "@/lib/cache"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { createRequestContext, getFollowing, getUser, toGitHubUser, type GitHubApiError } from "@/lib/github-api"
+import { resolveGitHubHost } from "@/lib/github-hosts"
+import type { GitHubUser } from "@/lib/github-schemas"
+import { isRateLimitNearlyExhausted, type RateLimitInfo } from "@/lib/rate-limit"
+
+export interface Recommendation {
+  login: string
+  followedBy: string[] // The expanded followings of the user who follow this account
+}
+
+export interface RecommendationsResult {
+  user?: GitHubUser
+  recommendations?: Recommendation[] // Most-followed first
+  expandedCount?: number // Followings whose own following lists were read
+  followingCount?: number // Everyone the user follows, expanded or not
+  skippedCount?: number // Followings within the cap that weren't expanded, mostly because the rate limit ran low
+  error?: string
+  isRateLimitError?: boolean
+  isMalformedResponse?: boolean
+  rateLimit?: RateLimitInfo
+  cache?: CacheMetrics
+}
+
+export interface RecommendationsOptions {
+  host?: string
+  forceRefresh?: boolean
+  maxNeighbors?: number // Followings to expand; each costs up to MAX_NEIGHBOR_PAGES requests
+  rateLimitReserve?: number // Stop expanding once this many requests remain
+}
+
+const DEFAULT_MAX_NEIGHBORS = 25
+const MAX_NEIGHBORS = 100
+const DEFAULT_RATE_LIMIT_RESERVE = 10
+const NEIGHBOR_FETCH_CONCURRENCY = 4
+const MAX_NEIGHBOR_PAGES = 5 // Only the first 500 followings of each neighbour are read
+const MAX_RECOMMENDATIONS = 50
+
+// Ranks accounts that the people `username` follows also follow, but `username` doesn't. Only the first
+// `maxNeighbors` followings are expanded, and expansion stops early when the rate limit runs low.
+export async function recommendAccounts(
+  username: string,
+  token?: string,
+  options: RecommendationsOptions = {},
+): Promise<RecommendationsResult> {
+  if (!username) {
+    return { error: "Enter a username." }
+  }
+
+  const host = resolveGitHubHost(options.host)
+  if ("error" in host) {
+    return { error: host.error }
+  }
+
+  const context = createRequestContext(host, token, await createRequestCache(options.forceRefresh))
+  const stats = () => ({ rateLimit: context.rateLimit, cache: context.cache?.metrics })
+
+  const profile = await getUser(context, username)
+  if ("error" in profile) {
+    const error = profile.status === 404 ? { ...profile, error: `Could not find GitHub user: ${username}.` } : profile
+    return { ...error, ...stats() }
+  }
+  const following = await getFollowing(context, profile.login, undefined, profile.following)
+  if ("error" in following) {
+    return { ...following, ...stats() }
+  }
+
+  const maxNeighbors = Math.min(Math.max(options.maxNeighbors ?? DEFAULT_MAX_NEIGHBORS, 0), MAX_NEIGHBORS)
+  const rateLimitReserve = options.rateLimitReserve ?? DEFAULT_RATE_LIMIT_RESERVE
+
+  // A rate-limit error ends the expansion; any other failure just leaves that neighbour out. The reserve is also
+  // checked between a neighbour's pages, so one account following thousands can't drain it.
+  let rateLimitError: GitHubApiError | undefined
+  const shouldStop = () =>
+    rateLimitError !== undefined || isRateLimitNearlyExhausted(context.rateLimit, rateLimitReserve)
+  const { results } = await mapWithConcurrency(
+    following.slice(0, maxNeighbors),
+    async (neighbor) => {
+      const neighborFollowing = await getFollowing(context, neighbor.login, undefined, undefined, {
+        maxPages: MAX_NEIGHBOR_PAGES,
+        shouldStop,
+      })
+      if ("error" in neighborFollowing) {
+        if (neighborFollowing.isRateLimitError) {
+          rateLimitError ??= neighborFollowing
+        }
+        return undefined
+      }
+      return { login: neighbor.login, following: neighborFollowing.map((user) => user.login) }
+    },
+    { concurrency: NEIGHBOR_FETCH_CONCURRENCY, shouldStop },
+  )
+  const expanded = results.filter((neighbor) => neighbor !== undefined)
+  if (expanded.length === 0 && rateLimitError) {
+    return { ...rateLimitError, ...stats() }
+  }
+
+  const alreadyFollowed = new Set(
+    [profile.login, ...following.map((user) => user.login)].map((login) => login.toLowerCase()),
+  )
+  const candidates = new Map<string, Recommendation>()
+  for (const neighbor of expanded) {
+    for (const login of neighbor.following) {
+      if (alreadyFollowed.has(login.toLowerCase())) {
+        continue
+      }
+      const candidate = candidates.get(login.toLowerCase()) ?? { login, followedBy: [] }
+      candidate.followedBy.push(neighbor.login)
+      candidates.set(login.toLowerCase(), candidate)
+    }
+  }
+
+  const recommendations = [...candidates.values()]
+    .sort((a, b) => b.followedBy.length - a.followedBy.length || a.login.localeCompare(b.login))
+    .slice(0, MAX_RECOMMENDATIONS)
+
+  return {
+    user: toGitHubUser(profile),
+    recommendations,
+    expandedCount: expanded.length,
+    followingCount: following.length,
+    skippedCount: Math.min(maxNeighbors, following.length) - expanded.length,
+    ...stats(),
+  }
+}
@@ -0,0 +1,121 @@
+export interface RetryPolicy {
+  maxRetries: number
+  baseDelayMs: number // First backoff delay, doubled on every further attempt
+  maxDelayMs: number // Upper bound for a computed backoff delay
+  maxRetryAfterMs: number // Give up instead of waiting when GitHub asks for a longer pause than this
+  retryableStatuses?: ReadonlySet<number> // Statuses retried with backoff; defaults to 502, 503 and 504
+}
+
+export type RetryReason = "secondaryRateLimit" | "serverError" | "network"
+
+export type RetryStats = Record<RetryReason, number>
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 60_000,
+}
+
+// GitHub recommends waiting at least a minute after a secondary rate limit that doesn't include Retry-After
+const SECONDARY_RATE_LIMIT_FALLBACK_DELAY_MS = 60_000
+
+const RETRYABLE_STATUSES = new Set([502, 503, 504])
+
+export function createRetryStats(): RetryStats {
+  return { secondaryRateLimit: 0, serverError: 0, network: 0 }
+}
+
+export function totalRetries(stats: RetryStats): number {
+  return stats.secondaryRateLimit + stats.serverError + stats.network
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (header === null) {
+    return undefined
+  }
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+// Exponential backoff with equal jitter, so concurrent workers don't retry in lockstep
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt)
+  return exponential / 2 + Math.random() * (exponential / 2)
+}
+
+// The primary rate limit reports X-RateLimit-Remaining: 0; anything else on a 403/429 that mentions
+// a secondary rate limit (formerly "abuse detection") or carries Retry-After is the secondary limit
+export async function isSecondaryRateLimit(response: Response): Promise<boolean> {
+  if (response.status !== 403 && response.status !== 429) {
+    return false
+  }
+  if (response.headers.get("X-RateLimit-Remaining") === "0") {
+    return false
+  }
+  if (response.headers.has("Retry-After")) {
+    return true
+  }
+  try {
+    const body = await response.clone().json()
+    return typeof body?.message === "string" && /secondary rate limit|abuse/i.test(body.message)
+  } catch {
+    return false
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Fetches `url`, retrying network errors, 502/503/504 (or `policy.retryableStatuses`) and secondary rate limits
+// according to `policy`.
+// Returns the last response once retries are exhausted; rethrows the last network error.
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  stats: RetryStats = createRetryStats(),
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response
+    try {
+      response = await fetch(url, init)
+    } catch (error) {
+      if (attempt >= policy.maxRetries) {
+        throw error
+      }
+      stats.network++
+      await sleep(getBackoffDelay(attempt, policy))
+      continue
+    }
+
+    if (attempt >= policy.maxRetries) {
+      return response
+    }
+
+    if ((policy.retryableStatuses ?? RETRYABLE_STATUSES).has(response.status)) {
+      stats.serverError++
+      const retryAfter = parseRetryAfter(response.headers.get("Retry-After"))
+      await sleep(Math.min(retryAfter ?? getBackoffDelay(attempt, policy), policy.maxRetryAfterMs))
+      continue
+    }
+
+    if (await isSecondaryRateLimit(response)) {
+      const delay =
+        parseRetryAfter(response.headers.get("Retry-After")) ??
+        Math.max(SECONDARY_RATE_LIMIT_FALLBACK_DELAY_MS, getBackoffDelay(attempt, policy))
+      if (delay > policy.maxRetryAfterMs) {
+        return response
+      }
+      stats.secondaryRateLimit++
+      await sleep(delay)
+      continue
+    }
+
+    return response
+  }
+}
@@ -0,0 +1,40 @@
+import { readNdjson } from "@/lib/ndjson"
+import type { CheckType, GetNonFollowersResult, ScanEvent } from "@/lib/scan"
+
+export interface ScanStreamRequest {
+  username: string
+  token?: string
+  checkType: CheckType
+  host?: string
+  forceRefresh?: boolean
+  ignoredLogins?: string[]
+}
+
+// Posts a scan to the streaming route, calling `onEvent` for every progress and user event.
+// Resolves with the final result, or an error result if the stream ends without one.
+export async function streamScan(
+  request: ScanStreamRequest,
+  onEvent: (event: ScanEvent) => void,
+): Promise<GetNonFollowersResult> {
+  const response = await fetch("/api/scan", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request),
+  })
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({}))
+    return { error: errorData.error || `Scan failed with status ${response.status}.` }
+  }
+
+  let result: GetNonFollowersResult | null = null
+  await readNdjson<ScanEvent>(response.body, (event) => {
+    if (event.type === "result") {
+      result = event.result
+    } else {
+      onEvent(event)
+    }
+  })
+
+  return result ?? { error: "The scan ended unexpectedly. Please try again." }
+}
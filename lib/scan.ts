@@ -0,0 +1,371 @@
+import { mapWithConcurrency } from "@/lib/concurrency"
+import { CACHE_TTL_SECONDS, createRequestCache, readCached, writeCached, type CacheMetrics } from "@/lib/cache"
+import {
+  cacheKey,
+  createRequestContext,
+  getFollowers,
+  getFollowing,
+  getTokenOwner,
+  getUser,
+  getUserDetails,
+  isOrganization,
+  toGitHubUser,
+  type RequestContext,
+} from "@/lib/github-api"
+import { fetchUserProfilesGraphQL, GRAPHQL_BATCH_SIZE } from "@/lib/github-graphql"
+import { resolveGitHubHost } from "@/lib/github-hosts"
+import type { GitHubUser, User } from "@/lib/github-schemas"
+import type { PageLimits, PageProgress } from "@/lib/pagination"
+import { isRateLimitNearlyExhausted, type RateLimitInfo } from "@/lib/rate-limit"
+import { totalRetries, type RetryStats } from "@/lib/retry"
+import { recordSnapshot, type FollowerSnapshot } from "@/lib/snapshots"
+import { describeToken, describeTokenError, type TokenInspection } from "@/lib/token-inspection"
+import { scheduleFollowerChangeNotifications } from "@/lib/webhooks"
+
+export type CheckType = "not-following-back" | "not-followed-back" | "mutual" | "all"
+
+export interface RelationshipBreakdown {
+  mutuals: GitHubUser[] // Users who follow each other
+  followingOnly: GitHubUser[] // Users I follow who don't follow me back
+  followersOnly: GitHubUser[] // Users who follow me but I don't follow back
+}
+
+export type RelationshipCounts = Record<keyof RelationshipBreakdown, number>
+
+export interface GetNonFollowersResult {
+  relationships?: RelationshipBreakdown
+  counts?: RelationshipCounts // Always reflects the full lists, even for buckets that weren't enriched
+  error?: string
+  isRateLimitError?: boolean // Indicates a critical rate limit error (e.g., for main following/followers lists)
+  isMalformedResponse?: boolean // GitHub returned a payload that didn't match the expected schema
+  isOrganization?: boolean // The username belongs to an organization, which can only be audited by its members
+  hasPartialDataError?: boolean // Indicates some supplementary data (like stars) couldn't be fetched
+  skippedLogins?: string[] // Logins never enriched because the rate limit was nearly exhausted
+  ignoredLogins?: Record<keyof RelationshipBreakdown, string[]> // Left out by the ignore list, per bucket
+  failedLogins?: string[] // Logins whose details request failed
+  rateLimit?: RateLimitInfo // REST budget as of the last response GitHub sent during the scan
+  retryCount?: number // Requests retried after secondary rate limits, 5xx responses or network errors
+  retries?: RetryStats // retryCount broken down by reason
+  cache?: CacheMetrics // Lookups served from (hits) or missing in (misses) the server-side cache
+  tokenInspection?: TokenInspection // Whose token the scan ran with and its scopes; unset for anonymous scans
+}
+
+export type ScanProgress =
+  | ({ phase: "following" | "followers" } & PageProgress)
+  | { phase: "enriching"; completed: number; total: number }
+
+export interface GetNonFollowersOptions {
+  concurrency?: number // Parallel user-detail requests, clamped to MAX_ENRICHMENT_CONCURRENCY
+  rateLimitReserve?: number // Stop scheduling detail requests once this few requests remain
+  forceRefresh?: boolean // Bypass cached lists and profiles, then repopulate the cache with fresh data
+  host?: string // GitHub host to scan, one of getGitHubHosts(); defaults to the deployment's default host
+  skipEnrichment?: boolean // Only fetch the lists and record a snapshot; relationships stay empty but counts are set
+  ignoredLogins?: string[] // Accounts to leave out of relationships; they are never enriched but still counted
+  // Checked before every page of the follower and following lists; once true, the scan ends with an error
+  shouldStopListing?: (rateLimit: RateLimitInfo) => boolean
+  // Callbacks are only usable when called from server code, e.g. the streaming scan route
+  onProgress?: (progress: ScanProgress) => void
+  onUser?: (bucket: keyof RelationshipBreakdown, user: GitHubUser) => void // Called as each user is enriched
+}
+
+// Events emitted by the streaming scan route, one JSON object per line
+export type ScanEvent =
+  | { type: "progress"; progress: ScanProgress }
+  | { type: "user"; bucket: keyof RelationshipBreakdown; user: GitHubUser }
+  | { type: "result"; result: GetNonFollowersResult }
+
+interface EnrichmentOptions {
+  concurrency: number
+  rateLimitReserve: number
+  onEnriched?: (index: number, details: GitHubUser | null) => void // `index` is the login's position in the input
+}
+
+interface EnrichmentResult {
+  results: (GitHubUser | null | undefined)[] // Same order as the input; null when the lookup failed, undefined when skipped
+  skippedLogins: string[]
+}
+
+export const CHECK_TYPES: CheckType[] = ["not-following-back", "not-followed-back", "mutual", "all"]
+
+// Buckets whose users get enriched with profile details for each check type
+const BUCKETS_BY_CHECK_TYPE: Record<CheckType, (keyof RelationshipBreakdown)[]> = {
+  "not-following-back": ["followingOnly"],
+  "not-followed-back": ["followersOnly"],
+  mutual: ["mutuals"],
+  all: ["mutuals", "followingOnly", "followersOnly"],
+}
+
+const DEFAULT_ENRICHMENT_CONCURRENCY = 8
+const MAX_ENRICHMENT_CONCURRENCY = 20
+const DEFAULT_RATE_LIMIT_RESERVE = 10
+
+// One REST call per login, used when there's no token to authenticate GraphQL requests with
+async function enrichUsersWithRest(
+  logins: string[],
+  context: RequestContext,
+  { concurrency, rateLimitReserve, onEnriched }: EnrichmentOptions,
+): Promise<EnrichmentResult> {
+  const { results, skipped } = await mapWithConcurrency(
+    logins,
+    async (login, index) => {
+      const details = await getUserDetails(context, login)
+      onEnriched?.(index, details)
+      return details
+    },
+    {
+      concurrency,
+      shouldStop: () => isRateLimitNearlyExhausted(context.rateLimit, rateLimitReserve),
+    },
+  )
+  return { results, skippedLogins: skipped }
+}
+
+// Resolves logins in batches of GRAPHQL_BATCH_SIZE, which spends a fraction of the REST budget on large lists.
+// Profiles already in the cache are served from it and only the misses are queried.
+async function enrichUsersWithGraphQL(
+  logins: string[],
+  token: string,
+  context: RequestContext,
+  { concurrency, rateLimitReserve, onEnriched }: EnrichmentOptions,
+): Promise<EnrichmentResult> {
+  const results: (GitHubUser | null | undefined)[] = new Array(logins.length).fill(undefined)
+  const missingIndexes: number[] = []
+
+  const cachedUsers = await Promise.all(
+    logins.map((login) => readCached<User>(context.cache, cacheKey(context, "user", login))),
+  )
+  cachedUsers.forEach((cachedUser, index) => {
+    if (cachedUser) {
+      results[index] = toGitHubUser(cachedUser)
+      onEnriched?.(index, results[index])
+    } else {
+      missingIndexes.push(index)
+    }
+  })
+
+  const batches: number[][] = []
+  for (let start = 0; start < missingIndexes.length; start += GRAPHQL_BATCH_SIZE) {
+    batches.push(missingIndexes.slice(start, start + GRAPHQL_BATCH_SIZE))
+  }
+
+  // GraphQL has its own points budget, separate from the REST rate limit
+  const graphQLRateLimit: RateLimitInfo = {}
+  const { skipped } = await mapWithConcurrency(
+    batches,
+    async (batch) => {
+      const batchResult = await fetchUserProfilesGraphQL(
+        batch.map((index) => logins[index]),
+        token,
+        { rateLimit: graphQLRateLimit, retries: context.retries, endpoint: context.host.graphqlUrl },
+      )
+      for (const [offset, index] of batch.entries()) {
+        const user = "error" in batchResult ? null : batchResult[offset]
+        // Organizations lack the follower count that readers of the REST profile cache expect
+        if (user && "followers" in user) {
+          await writeCached(context.cache, cacheKey(context, "user", user.login), user, CACHE_TTL_SECONDS.profile)
+        }
+        results[index] = user && ("followers" in user ? toGitHubUser(user) : user)
+        onEnriched?.(index, results[index] ?? null)
+      }
+    },
+    {
+      concurrency,
+      shouldStop: () => isRateLimitNearlyExhausted(graphQLRateLimit, rateLimitReserve),
+    },
+  )
+
+  return { results, skippedLogins: skipped.flat().map((index) => logins[index]) }
+}
+
+function describePartialDataError(skippedCount: number, failedCount: number): string {
+  const parts: string[] = []
+  if (skippedCount > 0) {
+    parts.push(`${skippedCount} skipped because the GitHub API rate limit is nearly exhausted`)
+  }
+  if (failedCount > 0) {
+    parts.push(`${failedCount} could not be fetched`)
+  }
+  return `Some user details are missing: ${parts.join(", ")}.`
+}
+
+export async function scanRelationships(
+  username: string,
+  token?: string,
+  checkType: CheckType = "not-following-back",
+  options: GetNonFollowersOptions = {},
+): Promise<GetNonFollowersResult> {
+  if (!username) {
+    return { error: "Username cannot be empty." }
+  }
+
+  const concurrency = Math.min(
+    Math.max(1, options.concurrency ?? DEFAULT_ENRICHMENT_CONCURRENCY),
+    MAX_ENRICHMENT_CONCURRENCY,
+  )
+  const rateLimitReserve = options.rateLimitReserve ?? DEFAULT_RATE_LIMIT_RESERVE
+
+  const host = resolveGitHubHost(options.host)
+  if ("error" in host) {
+    return { error: host.error }
+  }
+
+  const context = createRequestContext(host, token, await createRequestCache(options.forceRefresh))
+  const { rateLimit, retries } = context
+
+  // Check the token before the scan spends requests with it. Snapshot-only scans run with the server's own
+  // token and skip this.
+  let tokenInspection: TokenInspection | undefined
+  if (token && !options.skipEnrichment) {
+    const owner = await getTokenOwner(context)
+    if ("error" in owner) {
+      return { ...owner, error: describeTokenError(owner), rateLimit, retryCount: totalRetries(retries), retries }
+    }
+    tokenInspection = describeToken(token, host.host, owner)
+  }
+
+  const scanStats = () => ({
+    rateLimit,
+    retryCount: totalRetries(retries),
+    retries,
+    cache: context.cache?.metrics,
+    tokenInspection,
+  })
+
+  const profile = await getUser(context, username)
+  if ("error" in profile) {
+    if (profile.status === 404) {
+      return { error: `Could not find GitHub user: ${username}.`, isRateLimitError: false, ...scanStats() }
+    }
+    return { ...profile, ...scanStats() } // Propagate rate limit, malformed response and connection errors
+  }
+  // An organization follows nobody, so every follower would land in followersOnly
+  if (isOrganization(profile)) {
+    return {
+      error: `${profile.login} is an organization, so it has no follow-backs to check.`,
+      isOrganization: true,
+      ...scanStats(),
+    }
+  }
+
+  // Fetch both lists regardless of checkType, as both are needed for comparison
+  const { shouldStopListing } = options
+  const listLimits: PageLimits = { shouldStop: shouldStopListing && (() => shouldStopListing(rateLimit)) }
+  const followingData = await getFollowing(
+    context,
+    username,
+    (progress) => options.onProgress?.({ phase: "following", ...progress }),
+    profile.following,
+    listLimits,
+  )
+  if ("error" in followingData) {
+    return { ...followingData, ...scanStats() } // Propagate critical error
+  }
+
+  const followersData = await getFollowers(
+    context,
+    username,
+    (progress) => options.onProgress?.({ phase: "followers", ...progress }),
+    profile.followers,
+    listLimits,
+  )
+  if ("error" in followersData) {
+    return { ...followersData, ...scanStats() } // Propagate critical error
+  }
+
+  try {
+    const snapshot: FollowerSnapshot = {
+      host: host.host,
+      username: profile.login,
+      takenAt: context.listsFetchedAt ?? Date.now(), // Lists served from the cache are as old as their fetch
+      followers: followersData.map((user) => user.login),
+      following: followingData.map((user) => user.login),
+    }
+    const changes = await recordSnapshot(snapshot)
+    if (changes) {
+      scheduleFollowerChangeNotifications(snapshot, changes, host)
+    }
+  } catch (error) {
+    console.error("Failed to record follower snapshot:", error) // History is best-effort; the scan still succeeds
+  }
+
+  const followingSet = new Set(followingData.map((user) => user.login.toLowerCase()))
+  const followersSet = new Set(followersData.map((user) => user.login.toLowerCase()))
+
+  const bucketLogins: Record<keyof RelationshipBreakdown, string[]> = {
+    mutuals: [],
+    followingOnly: [],
+    followersOnly: [],
+  }
+
+  for (const user of followingData) {
+    if (followersSet.has(user.login.toLowerCase())) {
+      bucketLogins.mutuals.push(user.login)
+    } else {
+      bucketLogins.followingOnly.push(user.login)
+    }
+  }
+  for (const user of followersData) {
+    if (!followingSet.has(user.login.toLowerCase())) {
+      bucketLogins.followersOnly.push(user.login)
+    }
+  }
+
+  // Ignored accounts are split off before enrichment so hiding them also saves their detail requests
+  const ignoredSet = new Set((options.ignoredLogins ?? []).map((login) => login.toLowerCase()))
+  const isIgnored = (login: string) => ignoredSet.has(login.toLowerCase())
+  const ignoredLogins: Record<keyof RelationshipBreakdown, string[]> = {
+    mutuals: bucketLogins.mutuals.filter(isIgnored),
+    followingOnly: bucketLogins.followingOnly.filter(isIgnored),
+    followersOnly: bucketLogins.followersOnly.filter(isIgnored),
+  }
+
+  const relationships: RelationshipBreakdown = { mutuals: [], followingOnly: [], followersOnly: [] }
+
+  // Enrich every requested bucket through one shared pool so the concurrency limit applies to the whole scan
+  const enrichedBuckets = options.skipEnrichment ? [] : BUCKETS_BY_CHECK_TYPE[checkType]
+  const pending = enrichedBuckets.flatMap((bucket) =>
+    bucketLogins[bucket].filter((login) => !isIgnored(login)).map((login) => ({ bucket, login })),
+  )
+
+  const pendingLogins = pending.map(({ login }) => login)
+  let completed = 0
+  const enrichmentOptions: EnrichmentOptions = {
+    concurrency,
+    rateLimitReserve,
+    onEnriched: (index, details) => {
+      completed++
+      if (details) {
+        options.onUser?.(pending[index].bucket, details)
+      }
+      options.onProgress?.({ phase: "enriching", completed, total: pending.length })
+    },
+  }
+  const { results, skippedLogins } = token
+    ? await enrichUsersWithGraphQL(pendingLogins, token, context, enrichmentOptions)
+    : await enrichUsersWithRest(pendingLogins, context, enrichmentOptions)
+
+  const failedLogins: string[] = []
+  results.forEach((details, index) => {
+    if (details) {
+      relationships[pending[index].bucket].push(details)
+    } else if (details === null) {
+      failedLogins.push(pending[index].login)
+    }
+  })
+  const hasPartialDataError = failedLogins.length > 0 || skippedLogins.length > 0
+
+  return {
+    relationships,
+    counts: {
+      mutuals: bucketLogins.mutuals.length,
+      followingOnly: bucketLogins.followingOnly.length,
+      followersOnly: bucketLogins.followersOnly.length,
+    },
+    hasPartialDataError: hasPartialDataError,
+    skippedLogins,
+    failedLogins,
+    ignoredLogins,
+    ...scanStats(),
+    error: hasPartialDataError ? describePartialDataError(skippedLogins.length, failedLogins.length) : undefined,
+  }
+}
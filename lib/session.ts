@@ -0,0 +1,95 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "node:crypto"
+import { cookies } from "next/headers"
+
+import { resolveGitHubHost } from "@/lib/github-hosts"
+
+// What the session cookie holds once someone signs in with GitHub
+export interface Session {
+  token: string // OAuth access token; never leaves the server unencrypted
+  login: string
+  host: string // The GitHub host the token was issued by
+  scopes: string[]
+  expiresAt: number // Unix epoch milliseconds
+}
+
+// What the browser may learn about the session
+export interface SessionStatus {
+  oauthEnabled: boolean // Whether this deployment has an OAuth app configured
+  login?: string
+  host?: string
+}
+
+export const SESSION_COOKIE = "follower_check_session"
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60
+
+// AES-256-GCM with a key derived from SESSION_SECRET; without it sessions can't be sealed or opened
+function getSessionKey(): Buffer | undefined {
+  const secret = process.env.SESSION_SECRET
+  return secret ? createHash("sha256").update(secret).digest() : undefined
+}
+
+export function isSessionConfigured(): boolean {
+  return !!getSessionKey()
+}
+
+// Encrypts and authenticates a session as base64url(iv | auth tag | ciphertext)
+export function sealSession(session: Session): string {
+  const key = getSessionKey()
+  if (!key) {
+    throw new Error("SESSION_SECRET is not set.")
+  }
+  const iv = randomBytes(12)
+  const cipher = createCipheriv("aes-256-gcm", key, iv)
+  const ciphertext = Buffer.concat([cipher.update(JSON.stringify(session), "utf8"), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64url")
+}
+
+// Returns null for anything tampered with, sealed under another secret, malformed or expired
+export function unsealSession(value: string): Session | null {
+  const key = getSessionKey()
+  if (!key) {
+    return null
+  }
+  try {
+    const sealed = Buffer.from(value, "base64url")
+    const decipher = createDecipheriv("aes-256-gcm", key, sealed.subarray(0, 12))
+    decipher.setAuthTag(sealed.subarray(12, 28))
+    const plaintext = Buffer.concat([decipher.update(sealed.subarray(28)), decipher.final()]).toString("utf8")
+    const session = JSON.parse(plaintext) as Session
+    return session.expiresAt > Date.now() ? session : null
+  } catch {
+    return null
+  }
+}
+
+// Cookie attributes for the session. Secure is only set over https so the app still works on plain
+// http://localhost during development.
+export function sessionCookieOptions(requestUrl: string, maxAge = SESSION_MAX_AGE_SECONDS) {
+  return {
+    httpOnly: true,
+    secure: new URL(requestUrl).protocol === "https:",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge,
+  }
+}
+
+// The signed-in session of the current request, from server actions and route handlers
+export async function getSession(): Promise<Session | null> {
+  const value = (await cookies()).get(SESSION_COOKIE)?.value
+  return value ? unsealSession(value) : null
+}
+
+// The token to call GitHub with: one typed in for this request wins, otherwise the session's token when it was
+// issued by the host being called
+export async function resolveToken(token: string | undefined, host?: string): Promise<string | undefined> {
+  if (token) {
+    return token
+  }
+  const session = await getSession()
+  if (!session) {
+    return undefined
+  }
+  const resolvedHost = resolveGitHubHost(host)
+  return "error" in resolvedHost || resolvedHost.host !== session.host ? undefined : session.token
+}
@@ -0,0 +1,27 @@
+import type { FollowerSnapshot } from "@/lib/snapshots"
+
+export interface SnapshotDiff {
+  newFollowers: string[] // Started following the account
+  unfollowers: string[] // Stopped following the account
+  startedFollowing: string[] // The account started following them
+  stoppedFollowing: string[] // The account stopped following them
+}
+
+// Logins in `next` but not in `previous`, compared case-insensitively
+function added(previous: string[], next: string[]): string[] {
+  const previousSet = new Set(previous.map((login) => login.toLowerCase()))
+  return next.filter((login) => !previousSet.has(login.toLowerCase()))
+}
+
+export function diffSnapshots(previous: FollowerSnapshot, latest: FollowerSnapshot): SnapshotDiff {
+  return {
+    newFollowers: added(previous.followers, latest.followers),
+    unfollowers: added(latest.followers, previous.followers),
+    startedFollowing: added(previous.following, latest.following),
+    stoppedFollowing: added(latest.following, previous.following),
+  }
+}
+
+export function hasChanges(diff: SnapshotDiff): boolean {
+  return Object.values(diff).some((logins) => logins.length > 0)
+}
@@ -0,0 +1,53 @@
+import { mkdir, readdir, readFile, rename, writeFile } from "node:fs/promises"
+import path from "node:path"
+
+import type { FollowerSnapshot, SnapshotStore } from "@/lib/snapshots"
+
+// Stores each snapshot as <directory>/<host>/<username>/<takenAt>.json
+export class FileSnapshotStore implements SnapshotStore {
+  constructor(private directory: string) {}
+
+  private accountDirectory(host: string, username: string): string {
+    // Hosts may carry a port and logins are case-insensitive; keep both filesystem-safe
+    return path.join(this.directory, encodeURIComponent(host), encodeURIComponent(username.toLowerCase()))
+  }
+
+  async save(snapshot: FollowerSnapshot): Promise<void> {
+    const directory = this.accountDirectory(snapshot.host, snapshot.username)
+    await mkdir(directory, { recursive: true })
+    const filePath = path.join(directory, `${snapshot.takenAt}.json`)
+    await writeFile(`${filePath}.tmp`, JSON.stringify(snapshot))
+    await rename(`${filePath}.tmp`, filePath)
+  }
+
+  private async timestamps(host: string, username: string): Promise<number[]> {
+    let files: string[]
+    try {
+      files = await readdir(this.accountDirectory(host, username))
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return []
+      }
+      throw error
+    }
+    return files
+      .filter((file) => /^\d+\.json$/.test(file))
+      .map((file) => Number(file.slice(0, -".json".length)))
+      .sort((a, b) => a - b)
+  }
+
+  private async read(host: string, username: string, takenAt: number): Promise<FollowerSnapshot> {
+    const filePath = path.join(this.accountDirectory(host, username), `${takenAt}.json`)
+    return JSON.parse(await readFile(filePath, "utf8"))
+  }
+
+  async list(host: string, username: string): Promise<FollowerSnapshot[]> {
+    const timestamps = await this.timestamps(host, username)
+    return Promise.all(timestamps.map((takenAt) => this.read(host, username, takenAt)))
+  }
+
+  async latest(host: string, username: string, count: number): Promise<FollowerSnapshot[]> {
+    const timestamps = (await this.timestamps(host, username)).reverse().slice(0, count)
+    return Promise.all(timestamps.map((takenAt) => this.read(host, username, takenAt)))
+  }
+}
@@ -0,0 +1,51 @@
+import { diffSnapshots, type SnapshotDiff } from "@/lib/snapshots/diff"
+import { FileSnapshotStore } from "@/lib/snapshots/file"
+
+// The follower and following lists of one account at one point in time
+export interface FollowerSnapshot {
+  host: string
+  username: string
+  takenAt: number // Unix epoch milliseconds
+  followers: string[] // Logins, in the order GitHub returned them
+  following: string[]
+}
+
+export interface SnapshotStore {
+  save(snapshot: FollowerSnapshot): Promise<void>
+  list(host: string, username: string): Promise<FollowerSnapshot[]> // Oldest first
+  latest(host: string, username: string, count: number): Promise<FollowerSnapshot[]> // Newest first
+}
+
+let store: SnapshotStore | null = null
+
+export function getSnapshotStore(): SnapshotStore {
+  if (!store) {
+    store = new FileSnapshotStore(process.env.SNAPSHOT_DIR || ".data/snapshots")
+  }
+  return store
+}
+
+function sameLogins(a: string[], b: string[]): boolean {
+  if (a.length !== b.length) {
+    return false
+  }
+  const set = new Set(a.map((login) => login.toLowerCase()))
+  return b.every((login) => set.has(login.toLowerCase()))
+}
+
+// Saves `snapshot` unless it matches the latest stored one, so repeated checks of an unchanged account
+// (or re-scans served from cache) don't bury the last real change. Snapshots no newer than the latest one, e.g.
+// built from lists cached before it was taken, are dropped too. Returns what changed since the previous
+// snapshot, or undefined when nothing was saved or there was no previous snapshot to compare with.
+export async function recordSnapshot(snapshot: FollowerSnapshot): Promise<SnapshotDiff | undefined> {
+  const snapshots = getSnapshotStore()
+  const [latest] = await snapshots.latest(snapshot.host, snapshot.username, 1)
+  if (latest && snapshot.takenAt <= latest.takenAt) {
+    return undefined
+  }
+  if (latest && sameLogins(latest.followers, snapshot.followers) && sameLogins(latest.following, snapshot.following)) {
+    return undefined
+  }
+  await snapshots.save(snapshot)
+  return latest && diffSnapshots(latest, snapshot)
+}
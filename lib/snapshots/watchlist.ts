@@ -0,0 +1,135 @@
+import { getServerToken, resolveGitHubHost, type GitHubHost } from "@/lib/github-hosts"
+import { isRateLimitNearlyExhausted, type RateLimitInfo } from "@/lib/rate-limit"
+import { scanRelationships } from "@/lib/scan"
+
+export interface WatchlistEntry {
+  username: string
+  host?: string // Defaults to the deployment's default host
+}
+
+export interface WatchlistSnapshotResult {
+  username: string
+  host: string
+  status: "scanned" | "skipped" | "failed" // Skipped accounts were left alone, or given up on, to keep the reserve
+  followers?: number
+  following?: number
+  error?: string
+}
+
+export interface WatchlistRunResult {
+  results: WatchlistSnapshotResult[]
+  rateLimits: Record<string, RateLimitInfo> // REST budget per host as of the last scan against it
+}
+
+// `username` or `username@host`, the latter targeting a host other than the default
+export function parseWatchlistEntry(entry: string): WatchlistEntry {
+  const separator = entry.indexOf("@")
+  return separator === -1
+    ? { username: entry }
+    : { username: entry.slice(0, separator), host: entry.slice(separator + 1) }
+}
+
+// SNAPSHOT_WATCHLIST is a comma-separated list of watchlist entries
+export function getWatchlist(): WatchlistEntry[] {
+  return (process.env.SNAPSHOT_WATCHLIST || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map(parseWatchlistEntry)
+}
+
+// Whether `username` on `host` is on the watchlist, i.e. one of the accounts this deployment follows changes for
+export function isWatched(username: string, host: GitHubHost): boolean {
+  return getWatchlist().some((entry) => {
+    const entryHost = resolveGitHubHost(entry.host)
+    return (
+      !("error" in entryHost) &&
+      entryHost.host === host.host &&
+      entry.username.toLowerCase() === username.toLowerCase()
+    )
+  })
+}
+
+// Unless SNAPSHOT_RATE_LIMIT_RESERVE says otherwise, scans stop starting once a host is down to this share of its
+// limit, leaving headroom for interactive checks (500 requests with a token, 6 without)
+const DEFAULT_RESERVE_SHARE = 0.1
+
+function getBatchRateLimitReserve(rateLimit: RateLimitInfo): number {
+  const configured = Number(process.env.SNAPSHOT_RATE_LIMIT_RESERVE)
+  if (process.env.SNAPSHOT_RATE_LIMIT_RESERVE && Number.isInteger(configured) && configured >= 0) {
+    return configured
+  }
+  return Math.ceil((rateLimit.limit ?? 0) * DEFAULT_RESERVE_SHARE)
+}
+
+// A budget whose reset time has passed has refilled, whatever the last response said
+function hasBudgetLeft(rateLimit: RateLimitInfo | undefined, reserve: number): boolean {
+  if (!rateLimit || (rateLimit.reset !== undefined && rateLimit.reset * 1000 <= Date.now())) {
+    return true
+  }
+  return !isRateLimitNearlyExhausted(rateLimit, reserve)
+}
+
+// Records a snapshot of every watchlist account, one at a time so the rate-limit budget seen after each scan
+// decides whether the next one on the same host can start.
+export async function snapshotWatchlist(entries: WatchlistEntry[] = getWatchlist()): Promise<WatchlistRunResult> {
+  const results: WatchlistSnapshotResult[] = []
+  const rateLimits: Record<string, RateLimitInfo> = {}
+
+  for (const entry of entries) {
+    const host = resolveGitHubHost(entry.host)
+    if ("error" in host) {
+      results.push({ username: entry.username, host: entry.host ?? "", status: "failed", error: host.error })
+      continue
+    }
+
+    const rateLimit = rateLimits[host.host]
+    const reserve = rateLimit ? getBatchRateLimitReserve(rateLimit) : 0
+    const skipped = (reserve: number): WatchlistSnapshotResult => ({
+      username: entry.username,
+      host: host.host,
+      status: "skipped",
+      error: `Skipped to keep ${reserve} requests of the ${host.host} rate limit in reserve.`,
+    })
+    if (!hasBudgetLeft(rateLimit, reserve)) {
+      results.push(skipped(reserve))
+      continue
+    }
+
+    // A single account with long lists can spend the reserve too, so the budget is also checked between pages
+    let stoppedAtReserve: number | undefined
+    const result = await scanRelationships(entry.username, getServerToken(host), "all", {
+      host: host.host,
+      forceRefresh: true, // A snapshot served from cache would just repeat the last one
+      skipEnrichment: true,
+      shouldStopListing: (current) => {
+        const currentReserve = getBatchRateLimitReserve(current)
+        if (hasBudgetLeft(current, currentReserve)) {
+          return false
+        }
+        stoppedAtReserve = currentReserve
+        return true
+      },
+    })
+    if (result.rateLimit) {
+      rateLimits[host.host] = result.rateLimit
+    }
+
+    if (stoppedAtReserve !== undefined) {
+      results.push(skipped(stoppedAtReserve))
+    } else if (result.error) {
+      results.push({ username: entry.username, host: host.host, status: "failed", error: result.error })
+    } else {
+      const counts = result.counts
+      results.push({
+        username: entry.username,
+        host: host.host,
+        status: "scanned",
+        followers: counts && counts.mutuals + counts.followersOnly,
+        following: counts && counts.mutuals + counts.followingOnly,
+      })
+    }
+  }
+
+  return { results, rateLimits }
+}
@@ -0,0 +1,19 @@
+// Kept apart from lib/team so the team page can validate input without bundling server-only modules
+
+// Every member costs at least two requests; larger teams would exhaust an unauthenticated budget many times over
+export const MAX_TEAM_SIZE = 50
+
+// Splits free-form input ("alice, bob\ncarol") into unique logins, keeping the first spelling of each
+export function parseTeamInput(input: string): string[] {
+  const seen = new Set<string>()
+  return input
+    .split(/[\s,]+/)
+    .map((login) => login.trim().replace(/^@/, ""))
+    .filter((login) => {
+      if (!login || seen.has(login.toLowerCase())) {
+        return false
+      }
+      seen.add(login.toLowerCase())
+      return true
+    })
+}
@@ -0,0 +1,177 @@
+import { createRequestCache, type CacheMetrics } from "@/lib/cache"
+import { mapWithConcurrency } from "@/lib/concurrency"
+import {
+  createRequestContext,
+  getFollowing,
+  getOrgMembers,
+  getUser,
+  isOrganization,
+  toGitHubUser,
+  type GitHubApiError,
+  type RequestContext,
+} from "@/lib/github-api"
+import { resolveGitHubHost } from "@/lib/github-hosts"
+import type { GitHubUser } from "@/lib/github-schemas"
+import type { RateLimitInfo } from "@/lib/rate-limit"
+import { MAX_TEAM_SIZE, parseTeamInput } from "@/lib/team-input"
+
+export interface TeamMemberStats {
+  login: string
+  follows: number // Teammates this member follows
+  followedBy: number // Teammates who follow this member
+  mutuals: number // Teammates who follow this member and are followed back
+  reciprocity: number | null // Share of followed teammates who follow back; null when the member follows nobody
+}
+
+export interface TeamAnalysisResult {
+  organization?: GitHubUser // Set when the team is an organization's members
+  organizationMemberCount?: number // All visible members, including any beyond MAX_TEAM_SIZE that weren't analyzed
+  members?: GitHubUser[] // Deduplicated, in the order given
+  matrix?: boolean[][] // matrix[i][j] is true when members[i] follows members[j]
+  stats?: TeamMemberStats[] // Same order as members
+  unfollowedMembers?: string[] // Members no teammate follows
+  error?: string
+  isRateLimitError?: boolean
+  isMalformedResponse?: boolean
+  rateLimit?: RateLimitInfo
+  cache?: CacheMetrics
+}
+
+export interface TeamAnalysisOptions {
+  host?: string
+  forceRefresh?: boolean
+}
+
+const TEAM_FETCH_CONCURRENCY = 4
+
+// The following list alone answers "does i follow j" for every pair, so followers lists aren't fetched
+async function fetchMember(
+  context: RequestContext,
+  username: string,
+): Promise<{ profile: GitHubUser; following: Set<string> } | GitHubApiError> {
+  const profile = await getUser(context, username)
+  if ("error" in profile) {
+    return profile.status === 404 ? { ...profile, error: `Could not find GitHub user: ${username}.` } : profile
+  }
+  const following = await getFollowing(context, profile.login, undefined, profile.following)
+  if ("error" in following) {
+    return following
+  }
+  return { profile: toGitHubUser(profile), following: new Set(following.map((user) => user.login.toLowerCase())) }
+}
+
+// Builds the intra-team follow matrix for `usernames` and per-member reciprocity
+export async function analyzeTeam(
+  usernames: string[],
+  token?: string,
+  options: TeamAnalysisOptions = {},
+): Promise<TeamAnalysisResult> {
+  const logins = parseTeamInput(usernames.join(","))
+  if (logins.length < 2) {
+    return { error: "Enter at least two usernames." }
+  }
+  if (logins.length > MAX_TEAM_SIZE) {
+    return { error: `Teams are limited to ${MAX_TEAM_SIZE} members.` }
+  }
+
+  const host = resolveGitHubHost(options.host)
+  if ("error" in host) {
+    return { error: host.error }
+  }
+
+  const context = createRequestContext(host, token, await createRequestCache(options.forceRefresh))
+  return { ...(await buildTeamNetwork(context, logins)), rateLimit: context.rateLimit, cache: context.cache?.metrics }
+}
+
+// Runs the team analysis over the visible members of `org`. Organizations can't follow anyone, so they get
+// this audit of their members instead of the follower comparison a user gets.
+export async function analyzeOrganization(
+  org: string,
+  token?: string,
+  options: TeamAnalysisOptions = {},
+): Promise<TeamAnalysisResult> {
+  if (!org) {
+    return { error: "Enter an organization." }
+  }
+
+  const host = resolveGitHubHost(options.host)
+  if ("error" in host) {
+    return { error: host.error }
+  }
+
+  const context = createRequestContext(host, token, await createRequestCache(options.forceRefresh))
+  const stats = () => ({ rateLimit: context.rateLimit, cache: context.cache?.metrics })
+
+  const profile = await getUser(context, org)
+  if ("error" in profile) {
+    const error = profile.status === 404 ? `Could not find GitHub organization: ${org}.` : profile.error
+    return { ...profile, error, ...stats() }
+  }
+  if (!isOrganization(profile)) {
+    return {
+      error: `${profile.login} is a user, not an organization. List team members by username instead.`,
+      ...stats(),
+    }
+  }
+
+  const members = await getOrgMembers(context, profile.login)
+  if ("error" in members) {
+    return { ...members, ...stats() }
+  }
+  if (members.length < 2) {
+    return {
+      organization: toGitHubUser(profile),
+      organizationMemberCount: members.length,
+      error: `${profile.login} has fewer than two public members. Private members need a member's token to list.`,
+      ...stats(),
+    }
+  }
+
+  const logins = members.slice(0, MAX_TEAM_SIZE).map((member) => member.login)
+  return {
+    organization: toGitHubUser(profile),
+    organizationMemberCount: members.length,
+    ...(await buildTeamNetwork(context, logins)),
+    ...stats(),
+  }
+}
+
+// Fetches every member's following list and builds the follow matrix and per-member stats
+async function buildTeamNetwork(context: RequestContext, logins: string[]): Promise<TeamAnalysisResult> {
+  // One failed member would leave holes in the matrix, so the first error stops the rest and is reported
+  let failure: GitHubApiError | undefined
+  const { results } = await mapWithConcurrency(
+    logins,
+    async (login) => {
+      const member = await fetchMember(context, login)
+      if ("error" in member) {
+        failure ??= member
+        return undefined
+      }
+      return member
+    },
+    { concurrency: TEAM_FETCH_CONCURRENCY, shouldStop: () => failure !== undefined },
+  )
+  if (failure) {
+    return failure
+  }
+
+  const members = results.filter((member) => member !== undefined)
+  const matrix = members.map((follower, i) =>
+    members.map((followed, j) => i !== j && follower.following.has(followed.profile.login.toLowerCase())),
+  )
+
+  const memberStats = members.map(({ profile }, i): TeamMemberStats => {
+    const follows = matrix[i].filter(Boolean).length
+    const followedBy = matrix.filter((row) => row[i]).length
+    const mutuals = matrix[i].filter((followsOther, j) => followsOther && matrix[j][i]).length
+    return { login: profile.login, follows, followedBy, mutuals, reciprocity: follows > 0 ? mutuals / follows : null }
+  })
+
+  return {
+    members: members.map(({ profile }) => profile),
+    matrix,
+    stats: memberStats,
+    unfollowedMembers: memberStats.filter((member) => member.followedBy === 0).map((member) => member.login),
+  }
+}
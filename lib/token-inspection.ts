@@ -0,0 +1,114 @@
+import { createRequestContext, getTokenOwner, type GitHubApiError, type TokenOwner } from "@/lib/github-api"
+import { resolveGitHubHost } from "@/lib/github-hosts"
+
+export type TokenKind = "classic" | "oauth" | "fine-grained" | "github-app" | "unknown"
+
+// What the app may do with a token: read public data, list private organization members, follow and unfollow
+export type TokenAction = "scan" | "read-org" | "follow"
+
+export interface TokenCapability {
+  status: "yes" | "no" | "unknown" // "unknown" when GitHub doesn't report the permission that decides it
+  detail: string
+}
+
+export interface TokenInspection {
+  login: string
+  host: string
+  kind: TokenKind
+  scopes?: string[] // Undefined for tokens without OAuth scopes
+  capabilities: Record<TokenAction, TokenCapability>
+}
+
+export interface TokenInspectionResult {
+  inspection?: TokenInspection
+  error?: string
+  isRateLimitError?: boolean
+}
+
+// Scopes that include narrower ones, e.g. a classic token with `user` may also follow
+const IMPLIED_SCOPES: Record<string, string[]> = {
+  user: ["read:user", "user:email", "user:follow"],
+  "admin:org": ["write:org", "read:org"],
+  "write:org": ["read:org"],
+}
+
+// GitHub prefixes tokens by type: ghp_ classic, gho_ OAuth app, github_pat_ fine-grained, ghu_/ghs_ GitHub App
+function detectTokenKind(token: string, scopes: string[] | undefined): TokenKind {
+  if (token.startsWith("github_pat_")) {
+    return "fine-grained"
+  }
+  if (token.startsWith("ghu_") || token.startsWith("ghs_")) {
+    return "github-app"
+  }
+  if (token.startsWith("gho_")) {
+    return "oauth"
+  }
+  // Enterprise Server tokens may predate prefixes; only classic and OAuth tokens carry scopes
+  return token.startsWith("ghp_") || scopes !== undefined ? "classic" : "unknown"
+}
+
+function hasScope(scopes: string[], scope: string): boolean {
+  return scopes.some((granted) => granted === scope || IMPLIED_SCOPES[granted]?.includes(scope))
+}
+
+function checkCapabilities(scopes: string[] | undefined): Record<TokenAction, TokenCapability> {
+  const scan: TokenCapability = {
+    status: "yes",
+    detail: "Public followers and profiles need no scopes; any valid token raises the rate limit.",
+  }
+  if (scopes === undefined) {
+    return {
+      scan,
+      "read-org": {
+        status: "unknown",
+        detail: "Depends on the organization Members permission, which GitHub doesn't report for this token.",
+      },
+      follow: {
+        status: "unknown",
+        detail: "Needs the Followers permission (read and write), which GitHub doesn't report for this token.",
+      },
+    }
+  }
+  return {
+    scan,
+    "read-org": hasScope(scopes, "read:org")
+      ? { status: "yes", detail: "Organization audits include private members." }
+      : { status: "no", detail: "Without read:org, organization audits only see public members." },
+    follow: hasScope(scopes, "user:follow")
+      ? { status: "yes", detail: "Can follow and unfollow accounts." }
+      : { status: "no", detail: "Following and unfollowing need the user:follow scope." },
+  }
+}
+
+// Builds the inspection from a /user response the caller already has, e.g. when resolving a journal actor
+export function describeToken(token: string, host: string, owner: TokenOwner): TokenInspection {
+  return {
+    login: owner.user.login,
+    host,
+    kind: detectTokenKind(token, owner.scopes),
+    scopes: owner.scopes,
+    capabilities: checkCapabilities(owner.scopes),
+  }
+}
+
+// A 401 from /user is the clearest sign of a mistyped, expired or revoked token
+export function describeTokenError(error: GitHubApiError): string {
+  return error.status === 401 ? "GitHub rejected this token. It may be mistyped, expired or revoked." : error.error
+}
+
+// Asks GitHub who the token belongs to and what it may do, before it is used for a scan or a write
+export async function inspectToken(token: string | undefined, host?: string): Promise<TokenInspectionResult> {
+  if (!token) {
+    return { error: "Enter a token to check it." }
+  }
+  const resolvedHost = resolveGitHubHost(host)
+  if ("error" in resolvedHost) {
+    return { error: resolvedHost.error }
+  }
+
+  const owner = await getTokenOwner(createRequestContext(resolvedHost, token))
+  if ("error" in owner) {
+    return { error: describeTokenError(owner), isRateLimitError: owner.isRateLimitError }
+  }
+  return { inspection: describeToken(token, resolvedHost.host, owner) }
+}
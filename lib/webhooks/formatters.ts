@@ -0,0 +1,64 @@
+import type { FollowerChangeEvent, WebhookFormat } from "@/lib/webhooks"
+
+// Chat messages list this many logins per change type, then summarize the rest
+const MAX_LISTED_LOGINS = 20
+// Discord rejects messages whose content is longer than this
+const DISCORD_CONTENT_LIMIT = 2000
+
+function describeChanges(event: FollowerChangeEvent, link: (login: string) => string): string[] {
+  const lines: string[] = []
+  const listed = (logins: string[]) => logins.slice(0, MAX_LISTED_LOGINS)
+
+  for (const login of listed(event.unfollowers)) {
+    lines.push(`${link(login)} unfollowed you`)
+  }
+  if (event.unfollowers.length > MAX_LISTED_LOGINS) {
+    lines.push(`…and ${event.unfollowers.length - MAX_LISTED_LOGINS} more unfollowed you`)
+  }
+  for (const login of listed(event.newFollowers)) {
+    lines.push(`${link(login)} followed you`)
+  }
+  if (event.newFollowers.length > MAX_LISTED_LOGINS) {
+    lines.push(`…and ${event.newFollowers.length - MAX_LISTED_LOGINS} more followed you`)
+  }
+  return lines
+}
+
+function describeTotals(event: FollowerChangeEvent): string {
+  return `${event.followers} followers, ${event.following} following`
+}
+
+// Slack incoming webhooks: mrkdwn text with <url|label> links
+export function formatSlackMessage(event: FollowerChangeEvent): { text: string } {
+  const profile = (login: string) => `<${event.webUrl}/${login}|${login}>`
+  const lines = describeChanges(event, profile).map((line) => `• ${line}`)
+  return {
+    text: [`*Follower changes for ${profile(event.username)}* (${describeTotals(event)})`, ...lines].join("\n"),
+  }
+}
+
+// Discord webhooks: markdown content with [label](<url>) links, which suppress link previews
+export function formatDiscordMessage(event: FollowerChangeEvent): { content: string } {
+  const profile = (login: string) => `[${login}](<${event.webUrl}/${login}>)`
+  const lines = describeChanges(event, profile).map((line) => `- ${line}`)
+  const header = `**Follower changes for ${profile(event.username)}** (${describeTotals(event)})`
+  // Drop whole lines rather than cutting a link in half
+  let content = [header, ...lines].join("\n")
+  while (content.length > DISCORD_CONTENT_LIMIT && lines.length > 0) {
+    lines.pop()
+    content = [header, ...lines, "…"].join("\n")
+  }
+  return { content }
+}
+
+// The request body sent to a webhook of the given format; "json" receivers get the event as is
+export function formatWebhookPayload(format: WebhookFormat, event: FollowerChangeEvent): unknown {
+  switch (format) {
+    case "slack":
+      return formatSlackMessage(event)
+    case "discord":
+      return formatDiscordMessage(event)
+    default:
+      return event
+  }
+}
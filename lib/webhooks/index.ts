@@ -0,0 +1,176 @@
+import { createHmac, randomUUID } from "node:crypto"
+import { after } from "next/server"
+
+import type { GitHubHost } from "@/lib/github-hosts"
+import { createRetryStats, fetchWithRetry, totalRetries, type RetryPolicy } from "@/lib/retry"
+import type { FollowerSnapshot } from "@/lib/snapshots"
+import type { SnapshotDiff } from "@/lib/snapshots/diff"
+import { isWatched } from "@/lib/snapshots/watchlist"
+import { formatWebhookPayload } from "@/lib/webhooks/formatters"
+import { appendDeliveryLog, redactWebhookUrl, type WebhookDelivery } from "@/lib/webhooks/log"
+
+export type WebhookFormat = "json" | "slack" | "discord"
+
+export interface WebhookTarget {
+  url: string
+  format: WebhookFormat
+}
+
+// The "json" payload; Slack and Discord receive a chat message built from it instead
+export interface FollowerChangeEvent {
+  event: "followers.changed"
+  host: string
+  webUrl: string // For profile links
+  username: string
+  takenAt: number // Unix epoch milliseconds of the snapshot that revealed the changes
+  newFollowers: string[]
+  unfollowers: string[]
+  followers: number
+  following: number
+  test?: boolean // Set on events sent from the webhook test route
+}
+
+// Receivers get a few quick retries; a slow or rate-limited channel shouldn't hold up the next delivery for long.
+// Unlike GitHub, chat services answer their rate limits with a plain 429, and a receiver's 500 is often a blip.
+const WEBHOOK_RETRY_POLICY: RetryPolicy = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 30_000,
+  retryableStatuses: new Set([429, 500, 502, 503, 504]),
+}
+const WEBHOOK_TIMEOUT_MS = 60_000
+
+const TARGET_PATTERN = /^(?:(json|slack|discord):)?(https?:\/\/.+)$/
+
+// NOTIFY_WEBHOOKS is a comma-separated list of URLs, each optionally prefixed with its format,
+// e.g. `slack:https://hooks.slack.com/services/…,https://example.com/hook`. Unprefixed URLs get "json".
+export function getWebhookTargets(): WebhookTarget[] {
+  const targets: WebhookTarget[] = []
+  for (const entry of (process.env.NOTIFY_WEBHOOKS || "").split(",")) {
+    const trimmed = entry.trim()
+    if (!trimmed) {
+      continue
+    }
+    const match = TARGET_PATTERN.exec(trimmed)
+    if (!match || !URL.canParse(match[2])) {
+      console.error(`Ignoring invalid NOTIFY_WEBHOOKS entry: ${trimmed}`)
+      continue
+    }
+    targets.push({ url: match[2], format: (match[1] as WebhookFormat | undefined) ?? "json" })
+  }
+  return targets
+}
+
+// Same scheme as GitHub's X-Hub-Signature-256: HMAC-SHA256 of the raw body, keyed with WEBHOOK_SECRET
+export function signWebhookBody(body: string, secret: string): string {
+  return `sha256=${createHmac("sha256", secret).update(body).digest("hex")}`
+}
+
+export async function deliverWebhook(target: WebhookTarget, event: FollowerChangeEvent): Promise<WebhookDelivery> {
+  const id = randomUUID()
+  const body = JSON.stringify(formatWebhookPayload(target.format, event))
+  const headers: Record<string, string> = {
+    "Content-Type": "application/json",
+    "User-Agent": "github-follower-check",
+    "X-Follower-Check-Event": event.event,
+    "X-Follower-Check-Delivery": id,
+  }
+  const secret = process.env.WEBHOOK_SECRET
+  if (secret) {
+    headers["X-Follower-Check-Signature-256"] = signWebhookBody(body, secret)
+  }
+
+  const retries = createRetryStats()
+  const delivery: Omit<WebhookDelivery, "status" | "attempts" | "deliveredAt"> = {
+    id,
+    event: event.event,
+    target: redactWebhookUrl(target.url),
+    format: target.format,
+  }
+
+  let result: WebhookDelivery
+  try {
+    const response = await fetchWithRetry(
+      target.url,
+      { method: "POST", headers, body, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) },
+      retries,
+      WEBHOOK_RETRY_POLICY,
+    )
+    result = {
+      ...delivery,
+      status: response.ok ? "delivered" : "failed",
+      attempts: totalRetries(retries) + 1,
+      statusCode: response.status,
+      error: response.ok ? undefined : `Receiver answered with status ${response.status}.`,
+      deliveredAt: Date.now(),
+    }
+  } catch (error) {
+    result = {
+      ...delivery,
+      status: "failed",
+      attempts: totalRetries(retries) + 1,
+      error: error instanceof Error ? error.message : "Failed to reach the receiver.",
+      deliveredAt: Date.now(),
+    }
+  }
+
+  try {
+    await appendDeliveryLog(result)
+  } catch (error) {
+    console.error("Failed to write the webhook delivery log:", error)
+  }
+  return result
+}
+
+// Delivers `event` to every configured webhook, one after another
+export async function notifyWebhooks(
+  event: FollowerChangeEvent,
+  targets: WebhookTarget[] = getWebhookTargets(),
+): Promise<WebhookDelivery[]> {
+  const deliveries: WebhookDelivery[] = []
+  for (const target of targets) {
+    deliveries.push(await deliverWebhook(target, event))
+  }
+  return deliveries
+}
+
+// The event a new snapshot should be announced with, if any. Anyone can scan any username, so only accounts on
+// SNAPSHOT_WATCHLIST are announced; otherwise a team channel would hear about every stranger a visitor checks.
+export function buildFollowerChangeEvent(
+  snapshot: FollowerSnapshot,
+  changes: SnapshotDiff,
+  host: GitHubHost,
+): FollowerChangeEvent | undefined {
+  if (changes.newFollowers.length === 0 && changes.unfollowers.length === 0) {
+    return undefined
+  }
+  if (!isWatched(snapshot.username, host)) {
+    return undefined
+  }
+  return {
+    event: "followers.changed",
+    host: host.host,
+    webUrl: host.webUrl,
+    username: snapshot.username,
+    takenAt: snapshot.takenAt,
+    newFollowers: changes.newFollowers,
+    unfollowers: changes.unfollowers,
+    followers: snapshot.followers.length,
+    following: snapshot.following.length,
+  }
+}
+
+// Called when a scan records a snapshot. Deliveries run after the response is sent, so slow receivers and
+// their retries never delay a scan.
+export function scheduleFollowerChangeNotifications(
+  snapshot: FollowerSnapshot,
+  changes: SnapshotDiff,
+  host: GitHubHost,
+): void {
+  const targets = getWebhookTargets()
+  const event = targets.length > 0 ? buildFollowerChangeEvent(snapshot, changes, host) : undefined
+  if (event) {
+    after(() => notifyWebhooks(event, targets))
+  }
+}
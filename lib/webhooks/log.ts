@@ -0,0 +1,61 @@
+import { appendFile, mkdir, readFile } from "node:fs/promises"
+import path from "node:path"
+
+import type { WebhookFormat } from "@/lib/webhooks"
+
+// One attempt to deliver an event to one webhook, including its retries
+export interface WebhookDelivery {
+  id: string // Also sent as the X-Follower-Check-Delivery header
+  event: string
+  target: string // Redacted URL: webhook paths often embed the secret that authorizes posting
+  format: WebhookFormat
+  status: "delivered" | "failed"
+  attempts: number
+  statusCode?: number // Status of the last response, when the receiver answered
+  error?: string
+  deliveredAt: number // Unix epoch milliseconds of the last attempt
+}
+
+function getDeliveryLogPath(): string {
+  return process.env.WEBHOOK_LOG_PATH || ".data/webhook-deliveries.jsonl"
+}
+
+// Appends one JSON line per delivery; the log is append-only so concurrent writers never clobber each other
+export async function appendDeliveryLog(delivery: WebhookDelivery): Promise<void> {
+  const logPath = getDeliveryLogPath()
+  await mkdir(path.dirname(logPath), { recursive: true })
+  await appendFile(logPath, `${JSON.stringify(delivery)}\n`)
+}
+
+// The most recent deliveries, newest first
+export async function readDeliveryLog(limit: number): Promise<WebhookDelivery[]> {
+  let contents: string
+  try {
+    contents = await readFile(getDeliveryLogPath(), "utf8")
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return []
+    }
+    throw error
+  }
+
+  const deliveries: WebhookDelivery[] = []
+  for (const line of contents.split("\n").reverse()) {
+    if (deliveries.length >= limit) {
+      break
+    }
+    if (line.trim()) {
+      try {
+        deliveries.push(JSON.parse(line))
+      } catch {
+        // A line cut short by a crash mid-append; skip it
+      }
+    }
+  }
+  return deliveries
+}
+
+export function redactWebhookUrl(url: string): string {
+  const { origin, pathname } = new URL(url)
+  return pathname === "/" ? origin : `${origin}/…`
+}
@@ -0,0 +1,158 @@
+// A local stand-in for GitHub's OAuth endpoints, for trying out sign-in without registering an OAuth app:
+//   node scripts/mock-oauth-provider.mjs [port]
+// then start the app with GITHUB_OAUTH_URL=http://localhost:4100 and any GITHUB_CLIENT_ID, GITHUB_CLIENT_SECRET
+// and SESSION_SECRET. The web flow approves every request straight away. For the device flow, open the
+// verification URL with ?user_code=... (or just the URL, which approves every pending code).
+//
+// Sign-in looks the token up at GET /user. Set MOCK_OAUTH_TOKEN to a real token to do that against github.com,
+// or also point GITHUB_API_BASE_URL at http://localhost:4100/api/v3, where this server answers /user itself as
+// MOCK_OAUTH_LOGIN (default "octocat"). If the app's GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET are exported
+// here too, requests with other credentials are rejected the way GitHub would.
+
+import { randomBytes } from "node:crypto"
+import { createServer } from "node:http"
+
+const port = Number(process.argv[2] || process.env.PORT || 4100)
+const origin = `http://localhost:${port}`
+const token = process.env.MOCK_OAUTH_TOKEN || `gho_mock_${randomBytes(12).toString("hex")}`
+const login = process.env.MOCK_OAUTH_LOGIN || "octocat"
+const scope = "user:follow,read:org"
+
+const codes = new Set() // Web flow codes, each usable once
+const devices = new Map() // device_code -> { userCode, approved, expiresAt }
+
+function send(response, status, body) {
+  response.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify(body))
+}
+
+function readBody(request) {
+  return new Promise((resolve) => {
+    const chunks = []
+    request.on("data", (chunk) => chunks.push(chunk))
+    request.on("end", () => {
+      const text = Buffer.concat(chunks).toString("utf8")
+      try {
+        resolve(JSON.parse(text))
+      } catch {
+        resolve(Object.fromEntries(new URLSearchParams(text)))
+      }
+    })
+  })
+}
+
+function checkClient(params, needsSecret) {
+  const { GITHUB_CLIENT_ID: clientId, GITHUB_CLIENT_SECRET: clientSecret } = process.env
+  if (clientId && params.client_id !== clientId) {
+    return false
+  }
+  return !needsSecret || !clientSecret || params.client_secret === clientSecret
+}
+
+function exchangeToken(params) {
+  if (params.grant_type === "urn:ietf:params:oauth:grant-type:device_code") {
+    const device = devices.get(params.device_code)
+    if (!device) {
+      return { error: "incorrect_device_code", error_description: "The device_code provided is not valid." }
+    }
+    if (device.expiresAt < Date.now()) {
+      return { error: "expired_token", error_description: "The device_code has expired." }
+    }
+    if (!device.approved) {
+      return { error: "authorization_pending", error_description: "The authorization request is still pending." }
+    }
+    devices.delete(params.device_code)
+    console.log(`device ${device.userCode}: token issued`)
+    return { access_token: token, token_type: "bearer", scope }
+  }
+
+  if (!checkClient(params, true)) {
+    return {
+      error: "incorrect_client_credentials",
+      error_description: "The client_id and/or client_secret passed are incorrect.",
+    }
+  }
+  if (!codes.delete(params.code)) {
+    return { error: "bad_verification_code", error_description: "The code passed is incorrect or expired." }
+  }
+  console.log(`code ${params.code}: token issued`)
+  return { access_token: token, token_type: "bearer", scope }
+}
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url, origin)
+  console.log(`${request.method} ${url.pathname}`)
+
+  if (request.method === "GET" && url.pathname === "/login/oauth/authorize") {
+    const redirect = new URL(url.searchParams.get("redirect_uri") || "/", origin)
+    if (!checkClient({ client_id: url.searchParams.get("client_id") }, false)) {
+      redirect.searchParams.set("error", "incorrect_client_credentials")
+    } else {
+      const code = randomBytes(10).toString("hex")
+      codes.add(code)
+      redirect.searchParams.set("code", code)
+    }
+    redirect.searchParams.set("state", url.searchParams.get("state") || "")
+    response.writeHead(302, { Location: redirect.toString() }).end()
+    return
+  }
+
+  if (request.method === "POST" && url.pathname === "/login/oauth/access_token") {
+    send(response, 200, exchangeToken(await readBody(request)))
+    return
+  }
+
+  if (request.method === "POST" && url.pathname === "/login/device/code") {
+    const params = await readBody(request)
+    if (!checkClient(params, false)) {
+      send(response, 200, { error: "incorrect_client_credentials" })
+      return
+    }
+    const deviceCode = randomBytes(20).toString("hex")
+    const userCode = `${randomBytes(2).toString("hex")}-${randomBytes(2).toString("hex")}`.toUpperCase()
+    devices.set(deviceCode, { userCode, approved: false, expiresAt: Date.now() + 900_000 })
+    console.log(`device ${userCode}: waiting for ${origin}/login/device?user_code=${userCode}`)
+    send(response, 200, {
+      device_code: deviceCode,
+      user_code: userCode,
+      verification_uri: `${origin}/login/device`,
+      expires_in: 900,
+      interval: 5,
+    })
+    return
+  }
+
+  if (request.method === "GET" && url.pathname === "/login/device") {
+    const userCode = url.searchParams.get("user_code")?.toUpperCase()
+    let approved = 0
+    for (const device of devices.values()) {
+      if (!userCode || device.userCode === userCode) {
+        device.approved = true
+        approved++
+      }
+    }
+    response.writeHead(200, { "Content-Type": "text/plain" }).end(`Approved ${approved} device(s).\n`)
+    return
+  }
+
+  if (request.method === "GET" && url.pathname === "/api/v3/user") {
+    if (request.headers.authorization !== `Bearer ${token}`) {
+      send(response, 401, { message: "Bad credentials" })
+      return
+    }
+    response.setHeader("X-OAuth-Scopes", scope.split(",").join(", "))
+    send(response, 200, {
+      login,
+      avatar_url: `https://github.com/${login}.png`,
+      html_url: `https://github.com/${login}`,
+      type: "User",
+      followers: 0,
+      following: 0,
+      public_repos: 0,
+    })
+    return
+  }
+
+  send(response, 404, { message: "Not Found" })
+})
+
+server.listen(port, () => console.log(`Mock OAuth provider listening on ${origin}`))
@@ -0,0 +1,31 @@
+// Triggers the scheduled snapshot route of a running deployment, e.g. from crontab:
+//   0 * * * * CRON_SECRET=... node scripts/snapshot.mjs https://follower-check.example.com
+// The base URL defaults to SNAPSHOT_BASE_URL, then http://localhost:3000.
+
+const baseUrl = process.argv[2] || process.env.SNAPSHOT_BASE_URL || "http://localhost:3000"
+const secret = process.env.CRON_SECRET
+
+if (!secret) {
+  console.error("CRON_SECRET must be set to the same value as on the server.")
+  process.exit(1)
+}
+
+const response = await fetch(new URL("/api/cron/snapshot", baseUrl), {
+  method: "POST",
+  headers: { Authorization: `Bearer ${secret}` },
+})
+const body = await response.json().catch(() => ({}))
+
+if (!response.ok) {
+  console.error(`Snapshot run failed with status ${response.status}: ${body.error ?? "no details"}`)
+  process.exit(1)
+}
+
+for (const result of body.results) {
+  const details =
+    result.status === "scanned" ? `${result.followers} followers, ${result.following} following` : result.error
+  console.log(`${result.status.padEnd(7)} ${result.username}@${result.host}: ${details}`)
+}
+
+// Non-zero when any account failed, so schedulers can alert on it
+process.exit(body.results.some((result) => result.status === "failed") ? 1 : 0)
@@ -0,0 +1,50 @@
+// A local webhook receiver for trying out NOTIFY_WEBHOOKS:
+//   WEBHOOK_SECRET=... node scripts/webhook-receiver.mjs [port]
+// then set NOTIFY_WEBHOOKS=http://localhost:4000 on the server. Every request is printed with the result of
+// the signature check. RECEIVER_FAIL_FIRST=n answers the first n requests with 503 to exercise retries.
+
+import { createHmac, timingSafeEqual } from "node:crypto"
+import { createServer } from "node:http"
+
+const port = Number(process.argv[2] || process.env.PORT || 4000)
+const secret = process.env.WEBHOOK_SECRET
+let failuresLeft = Number(process.env.RECEIVER_FAIL_FIRST || 0)
+
+function checkSignature(body, signature) {
+  if (!secret) {
+    return "not checked (WEBHOOK_SECRET unset)"
+  }
+  if (!signature) {
+    return "MISSING"
+  }
+  const expected = Buffer.from(`sha256=${createHmac("sha256", secret).update(body).digest("hex")}`)
+  const provided = Buffer.from(signature)
+  return expected.length === provided.length && timingSafeEqual(expected, provided) ? "valid" : "INVALID"
+}
+
+const server = createServer((request, response) => {
+  const chunks = []
+  request.on("data", (chunk) => chunks.push(chunk))
+  request.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8")
+    const event = request.headers["x-follower-check-event"]
+    const delivery = request.headers["x-follower-check-delivery"]
+    console.log(`\n${request.method} ${request.url} event=${event} delivery=${delivery}`)
+    console.log(`signature: ${checkSignature(body, request.headers["x-follower-check-signature-256"])}`)
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--
+      console.log("answering 503 (RECEIVER_FAIL_FIRST)")
+      response.writeHead(503).end()
+      return
+    }
+    response.writeHead(204).end()
+  })
+})
+
+server.listen(port, () => console.log(`Webhook receiver listening on http://localhost:${port}`))